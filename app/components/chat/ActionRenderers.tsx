@@ -0,0 +1,116 @@
+import type { ReactNode } from 'react';
+import { createHighlighter, type BundledLanguage, type BundledTheme, type HighlighterGeneric } from 'shiki';
+import { registerActionRenderer } from '~/lib/runtime/action-registry';
+import { classNames } from '~/utils/classNames';
+
+const highlighterOptions = {
+  langs: ['shell'],
+  themes: ['light-plus', 'dark-plus'],
+};
+
+const shellHighlighter: HighlighterGeneric<BundledLanguage, BundledTheme> =
+  import.meta.hot?.data.shellHighlighter ?? (await createHighlighter(highlighterOptions));
+
+if (import.meta.hot) {
+  import.meta.hot.data.shellHighlighter = shellHighlighter;
+}
+
+interface ShellCodeBlockProps {
+  classsName?: string;
+  code: string;
+}
+
+export function ShellCodeBlock({ classsName, code }: ShellCodeBlockProps) {
+  return (
+    <div
+      className={classNames('text-xs', classsName)}
+      dangerouslySetInnerHTML={{
+        __html: shellHighlighter.codeToHtml(code, {
+          lang: 'shell',
+          theme: 'dark-plus',
+        }),
+      }}
+    ></div>
+  );
+}
+
+interface FilePathProps {
+  path: string;
+}
+
+export function FilePath({ path }: FilePathProps) {
+  return (
+    <code className="bg-bolt-elements-artifacts-inlineCode-background text-bolt-elements-artifacts-inlineCode-text px-1.5 py-1 rounded-md">
+      {path}
+    </code>
+  );
+}
+
+interface FileOperationLabelProps {
+  icon: string;
+  children: ReactNode;
+}
+
+export function FileOperationLabel({ icon, children }: FileOperationLabelProps) {
+  return (
+    <div className="flex items-center gap-1.5">
+      <div className={classNames('shrink-0', icon)}></div>
+      {children}
+    </div>
+  );
+}
+
+interface CommandLabelProps {
+  children: string;
+}
+
+export function CommandLabel({ children }: CommandLabelProps) {
+  return (
+    <div className="flex items-center w-full min-h-[28px]">
+      <span className="flex-1">{children}</span>
+    </div>
+  );
+}
+
+// the built-in actions are rendered here so that their definitions in the runtime don't depend on React
+registerActionRenderer('file', {
+  label: (action) => (
+    <FileOperationLabel icon="i-ph:file-plus">
+      Create <FilePath path={action.filePath} />
+    </FileOperationLabel>
+  ),
+});
+
+registerActionRenderer('patch', {
+  label: (action) => (
+    <FileOperationLabel icon="i-ph:pencil-simple-line">
+      Update <FilePath path={action.filePath} />
+    </FileOperationLabel>
+  ),
+});
+
+registerActionRenderer('delete', {
+  label: (action) => (
+    <FileOperationLabel icon="i-ph:trash">
+      Delete <FilePath path={action.filePath} />
+    </FileOperationLabel>
+  ),
+});
+
+registerActionRenderer('move', {
+  label: (action) => (
+    <FileOperationLabel icon="i-ph:arrow-right">
+      Move <FilePath path={action.filePath} /> to <FilePath path={action.newFilePath} />
+    </FileOperationLabel>
+  ),
+});
+
+registerActionRenderer('shell', {
+  label: () => <CommandLabel>Run command</CommandLabel>,
+  details: (action) => <ShellCodeBlock code={action.content} />,
+});
+
+registerActionRenderer('start', {
+  label: () => <CommandLabel>Start application</CommandLabel>,
+  details: (action) => <ShellCodeBlock code={action.content} />,
+});
@@ -2,34 +2,28 @@ import { useStore } from '@nanostores/react';
 import { AnimatePresence, motion } from 'framer-motion';
 import { computed } from 'nanostores';
 import { memo, useEffect, useRef, useState } from 'react';
-import { createHighlighter, type BundledLanguage, type BundledTheme, type HighlighterGeneric } from 'shiki';
+import { toast } from 'react-toastify';
+import { getActionRenderer, type ActionRenderer } from '~/lib/runtime/action-registry';
 import type { ActionState } from '~/lib/runtime/action-runner';
-import { workbenchStore } from '~/lib/stores/workbench';
+import { getArtifactKey, workbenchStore } from '~/lib/stores/workbench';
+import { CommandLabel } from './ActionRenderers';
 import { classNames } from '~/utils/classNames';
 import { cubicEasingFn } from '~/utils/easings';
-
-const highlighterOptions = {
-  langs: ['shell'],
-  themes: ['light-plus', 'dark-plus'],
-};
-
-const shellHighlighter: HighlighterGeneric<BundledLanguage, BundledTheme> =
-  import.meta.hot?.data.shellHighlighter ?? (await createHighlighter(highlighterOptions));
-
-if (import.meta.hot) {
-  import.meta.hot.data.shellHighlighter = shellHighlighter;
-}
+import { normalizeOutput } from '~/utils/terminal';
 
 interface ArtifactProps {
   messageId: string;
+  artifactIndex: number;
 }
 
-export const Artifact = memo(({ messageId }: ArtifactProps) => {
+export const Artifact = memo(({ messageId, artifactIndex }: ArtifactProps) => {
   const userToggledActions = useRef(false);
   const [showActions, setShowActions] = useState(false);
 
+  const artifactKey = getArtifactKey(messageId, artifactIndex);
+
   const artifacts = useStore(workbenchStore.artifacts);
-  const artifact = artifacts[messageId];
+  const artifact = artifacts[artifactKey];
 
   const actions = useStore(
     computed(artifact.runner.actions, (actions) => {
@@ -37,6 +31,30 @@ export const Artifact = memo(({ messageId }: ArtifactProps) => {
     }),
   );
 
+  const rolledBack = useStore(artifact.runner.rolledBack);
+  const hasSnapshot = useStore(computed(workbenchStore.snapshots, (snapshots) => !!snapshots[artifactKey]));
+  const [rollingBack, setRollingBack] = useState(false);
+
+  // actions can only be re-run once they all ran and the model can't add new ones anymore
+  const finished =
+    artifact.closed &&
+    actions.every(
+      (action) => action.status === 'complete' || action.status === 'failed' || action.status === 'aborted',
+    );
+
+  // reverting aborts the pending actions, so it's only offered once the model can't add new ones
+  const canRevert = hasSnapshot && artifact.closed;
+
+  const revert = async () => {
+    setRollingBack(true);
+
+    try {
+      await workbenchStore.revertArtifact(artifactKey);
+    } finally {
+      setRollingBack(false);
+    }
+  };
+
   const toggleActions = () => {
     userToggledActions.current = true;
     setShowActions(!showActions);
@@ -93,6 +111,39 @@ export const Artifact = memo(({ messageId }: ArtifactProps) => {
             <div className="bg-bolt-elements-artifacts-borderColor h-[1px]" />
             <div className="p-5 text-left bg-bolt-elements-actions-background">
               <ActionList actions={actions} />
+              {(canRevert || rolledBack || finished) && (
+                <div className="flex items-center gap-4 mt-4 text-sm text-bolt-elements-textSecondary">
+                  {(canRevert || rolledBack) && (
+                    <div className="flex items-center gap-1.5">
+                      <div className="i-ph:arrow-counter-clockwise"></div>
+                      {rolledBack ? (
+                        'Changes reverted'
+                      ) : (
+                        <button
+                          className="bg-transparent hover:text-bolt-elements-textPrimary disabled:opacity-50"
+                          title="Restores all files to the state before this message"
+                          disabled={rollingBack}
+                          onClick={revert}
+                        >
+                          Revert this change
+                        </button>
+                      )}
+                    </div>
+                  )}
+                  {finished && (
+                    <button
+                      className="flex items-center gap-1.5 ml-auto bg-transparent hover:text-bolt-elements-textPrimary"
+                      title="Restores the files of this message and runs all of its actions again"
+                      onClick={() => {
+                        workbenchStore.rerunArtifact(artifactKey).catch((error) => toast.error(error.message));
+                      }}
+                    >
+                      <div className="i-ph:arrows-clockwise"></div>
+                      Re-run all actions
+                    </button>
+                  )}
+                </div>
+              )}
             </div>
           </motion.div>
         )}
@@ -101,25 +152,6 @@ export const Artifact = memo(({ messageId }: ArtifactProps) => {
   );
 });
 
-interface ShellCodeBlockProps {
-  classsName?: string;
-  code: string;
-}
-
-function ShellCodeBlock({ classsName, code }: ShellCodeBlockProps) {
-  return (
-    <div
-      className={classNames('text-xs', classsName)}
-      dangerouslySetInnerHTML={{
-        __html: shellHighlighter.codeToHtml(code, {
-          lang: 'shell',
-          theme: 'dark-plus',
-        }),
-      }}
-    ></div>
-  );
-}
-
 interface ActionListProps {
   actions: ActionState[];
 }
@@ -134,8 +166,10 @@ const ActionList = memo(({ actions }: ActionListProps) => {
     <motion.div initial={{ opacity: 0 }} animate={{ opacity: 1 }} exit={{ opacity: 0 }} transition={{ duration: 0.15 }}>
       <ul className="list-none space-y-2.5">
         {actions.map((action, index) => {
-          const { status, type, content } = action;
+          const { status } = action;
           const isLast = index === actions.length - 1;
+          const renderer = (getActionRenderer(action.type) ?? fallbackRenderer) as ActionRenderer;
+          const details = renderer.details?.(action);
 
           return (
             <motion.li
@@ -154,32 +188,54 @@ const ActionList = memo(({ actions }: ActionListProps) => {
                     <div className="i-svg-spinners:90-ring-with-bg"></div>
                   ) : status === 'pending' ? (
                     <div className="i-ph:circle-duotone"></div>
+                  ) : status === 'awaiting-approval' ? (
+                    <div className="i-ph:hand-palm"></div>
                   ) : status === 'complete' ? (
                     <div className="i-ph:check"></div>
                   ) : status === 'failed' || status === 'aborted' ? (
                     <div className="i-ph:x"></div>
                   ) : null}
                 </div>
-                {type === 'file' ? (
-                  <div>
-                    Create{' '}
-                    <code className="bg-bolt-elements-artifacts-inlineCode-background text-bolt-elements-artifacts-inlineCode-text px-1.5 py-1 rounded-md">
-                      {action.filePath}
-                    </code>
-                  </div>
-                ) : type === 'shell' ? (
-                  <div className="flex items-center w-full min-h-[28px]">
-                    <span className="flex-1">Run command</span>
+                {renderer.label(action)}
+                {(status === 'failed' || status === 'aborted') && (
+                  <div className="ml-auto flex items-center gap-2 shrink-0 text-xs text-bolt-elements-textTertiary">
+                    {status === 'aborted' && <span>{action.skipped ? 'Skipped' : 'Aborted'}</span>}
+                    <button
+                      className="flex items-center gap-1 bg-transparent hover:text-bolt-elements-textPrimary"
+                      title="Run this action again"
+                      onClick={action.retry}
+                    >
+                      <div className="i-ph:arrow-clockwise"></div>
+                      Retry
+                    </button>
                   </div>
-                ) : null}
+                )}
               </div>
-              {type === 'shell' && (
-                <ShellCodeBlock
-                  classsName={classNames('mt-1', {
+              {status === 'failed' && (
+                <div className="mt-1 ml-6 text-xs text-bolt-elements-icon-error whitespace-pre-wrap break-words">
+                  {action.error}
+                </div>
+              )}
+              {(details || status === 'awaiting-approval' || action.output) && (
+                <div
+                  className={classNames('mt-1', {
                     'mb-3.5': !isLast,
                   })}
-                  code={content}
-                />
+                >
+                  {details}
+                  {status === 'awaiting-approval' && (
+                    <div className="flex items-center gap-2 mt-2 text-xs">
+                      <span className="flex-1 text-bolt-elements-textSecondary">{action.approvalReason}</span>
+                      <ApprovalButton type="primary" onClick={action.approve}>
+                        Approve
+                      </ApprovalButton>
+                      <ApprovalButton type="secondary" onClick={action.skip}>
+                        Skip
+                      </ApprovalButton>
+                    </div>
+                  )}
+                  {action.output && <ActionOutput output={action.output} failed={status === 'failed'} />}
+                </div>
               )}
             </motion.li>
           );
@@ -189,6 +245,75 @@ const ActionList = memo(({ actions }: ActionListProps) => {
   );
 });
 
+interface ApprovalButtonProps {
+  type: 'primary' | 'secondary';
+  children: string;
+  onClick: () => void;
+}
+
+function ApprovalButton({ type, children, onClick }: ApprovalButtonProps) {
+  return (
+    <button
+      className={classNames('inline-flex h-[26px] items-center rounded-md px-3 leading-none', {
+        'bg-bolt-elements-button-primary-background text-bolt-elements-button-primary-text hover:bg-bolt-elements-button-primary-backgroundHover':
+          type === 'primary',
+        'bg-bolt-elements-button-secondary-background text-bolt-elements-button-secondary-text hover:bg-bolt-elements-button-secondary-backgroundHover':
+          type === 'secondary',
+      })}
+      onClick={onClick}
+    >
+      {children}
+    </button>
+  );
+}
+
+interface ActionOutputProps {
+  output: string;
+  failed: boolean;
+}
+
+function ActionOutput({ output, failed }: ActionOutputProps) {
+  const [showOutput, setShowOutput] = useState(failed);
+  const outputRef = useRef<HTMLPreElement>(null);
+
+  useEffect(() => {
+    if (failed) {
+      setShowOutput(true);
+    }
+  }, [failed]);
+
+  useEffect(() => {
+    // keep the latest output in view while the command is running
+    if (outputRef.current) {
+      outputRef.current.scrollTop = outputRef.current.scrollHeight;
+    }
+  }, [output, showOutput]);
+
+  return (
+    <div className="mt-1">
+      <button
+        className="flex items-center gap-1 text-xs text-bolt-elements-textSecondary hover:text-bolt-elements-textPrimary bg-transparent"
+        onClick={() => setShowOutput(!showOutput)}
+      >
+        <div className={showOutput ? 'i-ph:caret-down' : 'i-ph:caret-right'}></div>
+        {showOutput ? 'Hide output' : 'Show output'}
+      </button>
+      {showOutput && (
+        <pre
+          ref={outputRef}
+          className="mt-1 p-2 max-h-60 overflow-auto rounded-md text-xs whitespace-pre-wrap break-words bg-bolt-elements-terminals-background text-bolt-elements-textPrimary"
+        >
+          {normalizeOutput(output)}
+        </pre>
+      )}
+    </div>
+  );
+}
+
+const fallbackRenderer: ActionRenderer = {
+  label: (action) => <CommandLabel>{`Run ${action.type} action`}</CommandLabel>,
+};
+
 function getIconColor(status: ActionState['status']) {
   switch (status) {
     case 'pending': {
@@ -197,6 +322,9 @@ function getIconColor(status: ActionState['status']) {
     case 'running': {
       return 'text-bolt-elements-loader-progress';
     }
+    case 'awaiting-approval': {
+      return 'text-bolt-elements-textPrimary';
+    }
     case 'complete': {
       return 'text-bolt-elements-icon-success';
     }
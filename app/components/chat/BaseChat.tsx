@@ -6,8 +6,11 @@ import { ClientOnly } from 'remix-utils/client-only';
 import { Menu } from '~/components/sidebar/Menu.client';
 import { IconButton } from '~/components/ui/IconButton';
 import { Workbench } from '~/components/workbench/Workbench.client';
+import type { ImportedProject } from '~/lib/import';
 import { classNames } from '~/utils/classNames';
 import { MODEL_LIST, DEFAULT_PROVIDER } from '~/utils/constants';
+import { ErrorsAlert } from './ErrorsAlert.client';
+import { ImportButtons } from './ImportButtons.client';
 import { Messages } from './Messages.client';
 import { SendButton } from './SendButton.client';
 import { useState } from 'react';
@@ -86,6 +89,8 @@ interface BaseChatProps {
   sendMessage?: (event: React.UIEvent, messageInput?: string) => void;
   handleInputChange?: (event: React.ChangeEvent<HTMLTextAreaElement>) => void;
   enhancePrompt?: () => void;
+  fixErrors?: () => void;
+  importProject?: (project: ImportedProject) => Promise<void>;
 }
 
 export const BaseChat = React.forwardRef<HTMLDivElement, BaseChatProps>(
@@ -109,6 +114,8 @@ export const BaseChat = React.forwardRef<HTMLDivElement, BaseChatProps>(
       handleInputChange,
       enhancePrompt,
       handleStop,
+      fixErrors,
+      importProject,
     },
     ref,
   ) => {
@@ -192,6 +199,9 @@ export const BaseChat = React.forwardRef<HTMLDivElement, BaseChatProps>(
                   'sticky bottom-0': chatStarted,
                 })}
               >
+                {chatStarted && (
+                  <ClientOnly>{() => <ErrorsAlert isStreaming={isStreaming} onFix={() => fixErrors?.()} />}</ClientOnly>
+                )}
                 <ModelSelector
                   model={model}
                   setModel={setModel}
@@ -287,7 +297,8 @@ export const BaseChat = React.forwardRef<HTMLDivElement, BaseChatProps>(
               </div>
             </div>
             {!chatStarted && (
-              <div id="examples" className="relative w-full max-w-xl mx-auto mt-8 flex justify-center">
+              <div id="examples" className="relative w-full max-w-xl mx-auto mt-8 flex flex-col items-center gap-6">
+                {importProject && <ClientOnly>{() => <ImportButtons importProject={importProject} />}</ClientOnly>}
                 <div className="flex flex-col space-y-2 [mask-image:linear-gradient(to_bottom,black_0%,transparent_180%)] hover:[mask-image:none]">
                   {EXAMPLE_PROMPTS.map((examplePrompt, index) => {
                     return (
@@ -7,11 +7,14 @@ import { useAnimate } from 'framer-motion';
 import { memo, useEffect, useRef, useState } from 'react';
 import { cssTransition, toast, ToastContainer } from 'react-toastify';
 import { useMessageParser, usePromptEnhancer, useShortcuts, useSnapScroll } from '~/lib/hooks';
+import { createImportMessages, type ImportedProject } from '~/lib/import';
 import { useChatHistory } from '~/lib/persistence';
 import { chatStore } from '~/lib/stores/chat';
+import { createFixPrompt } from '~/lib/stores/errors';
+import { autoFixStore, toolCallingStore } from '~/lib/stores/settings';
 import { workbenchStore } from '~/lib/stores/workbench';
 import { fileModificationsToHTML } from '~/utils/diff';
-import { DEFAULT_MODEL, DEFAULT_PROVIDER } from '~/utils/constants';
+import { DEFAULT_MODEL, DEFAULT_PROVIDER, TOOL_CALLING_PROVIDERS } from '~/utils/constants';
 import { cubicEasingFn } from '~/utils/easings';
 import { createScopedLogger, renderLogger } from '~/utils/logger';
 import { BaseChat } from './BaseChat';
@@ -24,6 +27,12 @@ const toastAnimation = cssTransition({
 
 const logger = createScopedLogger('Chat');
 
+/**
+ * Time we wait before automatically sending errors to the model so that the errors of all remaining
+ * actions end up in the same message.
+ */
+const AUTO_FIX_DELAY = 2_000;
+
 export function Chat() {
   renderLogger.trace('Chat');
 
@@ -78,15 +87,19 @@ export const ChatImpl = memo(({ initialMessages, storeMessageHistory }: ChatProp
   const [provider, setProvider] = useState(DEFAULT_PROVIDER);
 
   const { showChat } = useStore(chatStore);
+  const errors = useStore(workbenchStore.errors);
+  const autoFix = useStore(autoFixStore);
+  const toolCalling = useStore(toolCallingStore);
 
   const [animationScope, animate] = useAnimate();
 
   const [apiKeys, setApiKeys] = useState<Record<string, string>>({});
 
-  const { messages, isLoading, input, handleInputChange, setInput, stop, append } = useChat({
+  const { messages, isLoading, input, handleInputChange, setInput, stop, append, setMessages } = useChat({
     api: '/api/chat',
     body: {
-      apiKeys
+      apiKeys,
+      toolCalling: toolCalling.enabled,
     },
     onError: (error) => {
       logger.error('Request failed\n\n', error);
@@ -115,6 +128,19 @@ export const ChatImpl = memo(({ initialMessages, storeMessageHistory }: ChatProp
     }
   }, [messages, isLoading, parseMessages]);
 
+  useEffect(() => {
+    if (!isLoading) {
+      workbenchStore.endStreaming();
+    }
+  }, [isLoading]);
+
+  // the files are only needed by the file tools, which are only used in tool-calling mode
+  const getRequestBody = () => {
+    const useFileTools = toolCalling.enabled && TOOL_CALLING_PROVIDERS.includes(provider);
+
+    return useFileTools ? { files: workbenchStore.getProjectFiles() } : {};
+  };
+
   const scrollTextArea = () => {
     const textarea = textareaRef.current;
 
@@ -157,7 +183,10 @@ export const ChatImpl = memo(({ initialMessages, storeMessageHistory }: ChatProp
     setChatStarted(true);
   };
 
-  const sendMessage = async (_event: React.UIEvent, messageInput?: string) => {
+  /**
+   * @param fixAttempt The number of consecutive fix attempts if this message asks the model to fix errors.
+   */
+  const sendMessage = async (_event: React.UIEvent, messageInput?: string, fixAttempt = 0) => {
     const _input = messageInput || input;
 
     if (_input.length === 0 || isLoading) {
@@ -176,6 +205,10 @@ export const ChatImpl = memo(({ initialMessages, storeMessageHistory }: ChatProp
     const fileModifications = workbenchStore.getFileModifcations();
 
     chatStore.setKey('aborted', false);
+    chatStore.setKey('fixAttempts', fixAttempt);
+
+    // the model sees the current state of the project with the new message, so old errors are no longer relevant
+    workbenchStore.clearErrors();
 
     runAnimation();
 
@@ -189,7 +222,10 @@ export const ChatImpl = memo(({ initialMessages, storeMessageHistory }: ChatProp
        * manually reset the input and we'd have to manually pass in file attachments. However, those
        * aren't relevant here.
        */
-      append({ role: 'user', content: `[Model: ${model}]\n\n[Provider: ${provider}]\n\n${diff}\n\n${_input}` });
+      append(
+        { role: 'user', content: `[Model: ${model}]\n\n[Provider: ${provider}]\n\n${diff}\n\n${_input}` },
+        { body: getRequestBody() },
+      );
 
       /**
        * After sending a new message we reset all modifications since the model
@@ -197,16 +233,66 @@ export const ChatImpl = memo(({ initialMessages, storeMessageHistory }: ChatProp
        */
       workbenchStore.resetAllFileModifications();
     } else {
-      append({ role: 'user', content: `[Model: ${model}]\n\n[Provider: ${provider}]\n\n${_input}` });
+      append(
+        { role: 'user', content: `[Model: ${model}]\n\n[Provider: ${provider}]\n\n${_input}` },
+        { body: getRequestBody() },
+      );
     }
 
-    setInput('');
+    if (messageInput === undefined) {
+      setInput('');
+    }
 
     resetEnhancer();
 
     textareaRef.current?.blur();
   };
 
+  /**
+   * Starts the chat with an existing project. The files are mounted right away and the chat begins with
+   * messages that describe the project to the model.
+   */
+  const importProject = async (project: ImportedProject) => {
+    if (chatStarted || isLoading) {
+      return;
+    }
+
+    const importMessages = createImportMessages(
+      project,
+      `[Model: ${model}]\n\n[Provider: ${provider}]\n\nImport the project "${project.name}"`,
+    );
+
+    await workbenchStore.importFiles(project.files);
+
+    setMessages(importMessages);
+
+    runAnimation();
+
+    workbenchStore.setShowWorkbench(true);
+  };
+
+  const fixErrors = () => {
+    const errors = workbenchStore.errors.get();
+
+    if (errors.length === 0) {
+      return;
+    }
+
+    sendMessage(undefined, createFixPrompt(errors), chatStore.get().fixAttempts + 1);
+  };
+
+  useEffect(() => {
+    const { aborted, fixAttempts } = chatStore.get();
+
+    if (!autoFix.enabled || isLoading || aborted || errors.length === 0 || fixAttempts >= autoFix.maxAttempts) {
+      return undefined;
+    }
+
+    const timeoutId = setTimeout(fixErrors, AUTO_FIX_DELAY);
+
+    return () => clearTimeout(timeoutId);
+  }, [errors, isLoading, autoFix]);
+
   const [messageRef, scrollRef] = useSnapScroll();
 
   useEffect(() => {
@@ -235,6 +321,8 @@ export const ChatImpl = memo(({ initialMessages, storeMessageHistory }: ChatProp
       scrollRef={scrollRef}
       handleInputChange={handleInputChange}
       handleStop={abort}
+      fixErrors={fixErrors}
+      importProject={importProject}
       messages={messages.map((message, i) => {
         if (message.role === 'user') {
           return message;
@@ -0,0 +1,76 @@
+import { useStore } from '@nanostores/react';
+import { memo } from 'react';
+import { IconButton } from '~/components/ui/IconButton';
+import { chatStore } from '~/lib/stores/chat';
+import { autoFixStore, setAutoFix } from '~/lib/stores/settings';
+import { workbenchStore } from '~/lib/stores/workbench';
+import { classNames } from '~/utils/classNames';
+
+interface ErrorsAlertProps {
+  isStreaming?: boolean;
+  onFix: () => void;
+}
+
+export const ErrorsAlert = memo(({ isStreaming = false, onFix }: ErrorsAlertProps) => {
+  const errors = useStore(workbenchStore.errors);
+  const autoFix = useStore(autoFixStore);
+  const { fixAttempts } = useStore(chatStore);
+
+  if (errors.length === 0) {
+    return null;
+  }
+
+  const limitReached = fixAttempts >= autoFix.maxAttempts;
+
+  return (
+    <div className="mb-2 rounded-lg border border-bolt-elements-borderColor bg-bolt-elements-background-depth-2 p-3 text-sm">
+      <div className="flex items-start gap-2">
+        <div className="i-ph:warning-circle text-lg text-bolt-elements-icon-error shrink-0 mt-0.5" />
+        <div className="flex-1 min-w-0">
+          <div className="font-medium text-bolt-elements-textPrimary">
+            {errors.length === 1 ? 'An error occurred' : `${errors.length} errors occurred`}
+          </div>
+          <ul className="mt-1 text-bolt-elements-textSecondary">
+            {errors.map((error) => (
+              <li key={error.id} className="truncate" title={error.details}>
+                {error.title}
+              </li>
+            ))}
+          </ul>
+        </div>
+        <IconButton
+          icon="i-ph:x"
+          size="md"
+          title="Dismiss"
+          onClick={() => {
+            workbenchStore.clearErrors();
+          }}
+        />
+      </div>
+      <div className="flex items-center gap-3 mt-3">
+        <button
+          className={classNames(
+            'inline-flex h-[30px] items-center rounded-md px-3 leading-none',
+            'bg-bolt-elements-button-primary-background text-bolt-elements-button-primary-text hover:bg-bolt-elements-button-primary-backgroundHover',
+            'disabled:opacity-50 disabled:cursor-not-allowed',
+          )}
+          disabled={isStreaming}
+          onClick={onFix}
+        >
+          Ask Bolt to fix
+        </button>
+        <label className="flex items-center gap-1.5 text-bolt-elements-textSecondary cursor-pointer">
+          <input type="checkbox" checked={autoFix.enabled} onChange={(event) => setAutoFix(event.target.checked)} />
+          Fix automatically
+        </label>
+        {fixAttempts > 0 && (
+          <span className="ml-auto text-bolt-elements-textTertiary">
+            {autoFix.enabled && limitReached
+              ? `Stopped after ${fixAttempts} attempts`
+              : `Attempt ${fixAttempts}/${autoFix.maxAttempts}`}
+          </span>
+        )}
+      </div>
+    </div>
+  );
+});
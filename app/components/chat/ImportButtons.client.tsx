@@ -0,0 +1,258 @@
+import { useEffect, useRef, useState, type ReactNode } from 'react';
+import { toast } from 'react-toastify';
+import { Dialog, DialogButton, DialogDescription, DialogRoot, DialogTitle } from '~/components/ui/Dialog';
+import {
+  parseGitRepositoryUrl,
+  readDirectoryHandle,
+  readFileList,
+  readGitRepository,
+  readZipFile,
+  validateImportedProject,
+  type ImportedProject,
+} from '~/lib/import';
+import { classNames } from '~/utils/classNames';
+import { createScopedLogger } from '~/utils/logger';
+
+const logger = createScopedLogger('ImportButtons');
+
+interface ImportButtonsProps {
+  importProject: (project: ImportedProject) => Promise<void>;
+}
+
+/**
+ * Buttons to start a new chat with an existing project. While they are shown, a zip archive can also be
+ * dropped anywhere on the page.
+ */
+export function ImportButtons({ importProject }: ImportButtonsProps) {
+  const [importing, setImporting] = useState(false);
+  const [draggingZip, setDraggingZip] = useState(false);
+  const folderInputRef = useRef<HTMLInputElement>(null);
+  const zipInputRef = useRef<HTMLInputElement>(null);
+  const [gitDialogOpen, setGitDialogOpen] = useState(false);
+  const [gitUrl, setGitUrl] = useState('');
+
+  const runImport = async (readProject: () => Promise<ImportedProject>) => {
+    setImporting(true);
+
+    try {
+      const project = await readProject();
+
+      validateImportedProject(project);
+
+      await importProject(project);
+    } catch (error) {
+      // the user closed the folder picker
+      if (error instanceof DOMException && error.name === 'AbortError') {
+        return;
+      }
+
+      logger.error('Failed to import the project\n\n', error);
+      toast.error(`Failed to import the project: ${error instanceof Error ? error.message : String(error)}`);
+    } finally {
+      setImporting(false);
+    }
+  };
+
+  const openFolder = () => {
+    if ('showDirectoryPicker' in window) {
+      runImport(async () => readDirectoryHandle(await window.showDirectoryPicker()));
+    } else {
+      folderInputRef.current?.click();
+    }
+  };
+
+  const importZip = (file: File) => {
+    if (!isZipFile(file)) {
+      toast.error(`"${file.name}" is not a zip archive`);
+      return;
+    }
+
+    runImport(() => readZipFile(file));
+  };
+
+  const gitUrlError = gitUrl.trim() && !parseGitRepositoryUrl(gitUrl) ? 'Enter the URL of a GitHub repository' : '';
+
+  const importGitRepository = () => {
+    if (!gitUrl.trim() || gitUrlError) {
+      return;
+    }
+
+    setGitDialogOpen(false);
+    runImport(() => readGitRepository(gitUrl));
+  };
+
+  useEffect(() => {
+    // counts the elements the drag is over because `dragleave` also fires when moving between children
+    let dragDepth = 0;
+
+    const onDragEnter = (event: DragEvent) => {
+      if (!hasFiles(event)) {
+        return;
+      }
+
+      dragDepth++;
+      setDraggingZip(true);
+    };
+
+    const onDragLeave = (event: DragEvent) => {
+      if (!hasFiles(event)) {
+        return;
+      }
+
+      dragDepth = Math.max(0, dragDepth - 1);
+
+      if (dragDepth === 0) {
+        setDraggingZip(false);
+      }
+    };
+
+    const onDragOver = (event: DragEvent) => {
+      if (hasFiles(event)) {
+        event.preventDefault();
+      }
+    };
+
+    const onDrop = (event: DragEvent) => {
+      if (!hasFiles(event)) {
+        return;
+      }
+
+      event.preventDefault();
+
+      dragDepth = 0;
+      setDraggingZip(false);
+
+      const file = event.dataTransfer?.files[0];
+
+      if (file && !importing) {
+        importZip(file);
+      }
+    };
+
+    window.addEventListener('dragenter', onDragEnter);
+    window.addEventListener('dragleave', onDragLeave);
+    window.addEventListener('dragover', onDragOver);
+    window.addEventListener('drop', onDrop);
+
+    return () => {
+      window.removeEventListener('dragenter', onDragEnter);
+      window.removeEventListener('dragleave', onDragLeave);
+      window.removeEventListener('dragover', onDragOver);
+      window.removeEventListener('drop', onDrop);
+    };
+  }, [importProject, importing]);
+
+  return (
+    <div className="flex items-center justify-center gap-2">
+      <ImportButton icon="i-ph:folder-open" disabled={importing} onClick={openFolder}>
+        Open folder
+      </ImportButton>
+      <input
+        ref={folderInputRef}
+        className="hidden"
+        type="file"
+        multiple
+        {...{ webkitdirectory: '' }}
+        onChange={(event) => {
+          const { files } = event.target;
+
+          if (files && files.length > 0) {
+            runImport(() => readFileList(files));
+          }
+
+          // allows to pick the same folder again
+          event.target.value = '';
+        }}
+      />
+      <ImportButton icon="i-ph:file-zip" disabled={importing} onClick={() => zipInputRef.current?.click()}>
+        Import zip
+      </ImportButton>
+      <input
+        ref={zipInputRef}
+        className="hidden"
+        type="file"
+        accept=".zip,application/zip"
+        onChange={(event) => {
+          const file = event.target.files?.[0];
+
+          if (file) {
+            importZip(file);
+          }
+
+          event.target.value = '';
+        }}
+      />
+      <ImportButton icon="i-ph:git-branch" disabled={importing} onClick={() => setGitDialogOpen(true)}>
+        Import from Git
+      </ImportButton>
+      <DialogRoot open={gitDialogOpen} onOpenChange={setGitDialogOpen}>
+        <Dialog onBackdrop={() => setGitDialogOpen(false)} onClose={() => setGitDialogOpen(false)}>
+          <DialogTitle>Import from Git</DialogTitle>
+          <DialogDescription asChild>
+            <form
+              className="flex flex-col gap-2"
+              onSubmit={(event) => {
+                event.preventDefault();
+                importGitRepository();
+              }}
+            >
+              <p>The repository is downloaded from GitHub and its dependencies are installed.</p>
+              <input
+                className="p-2 text-sm rounded border border-bolt-elements-borderColor bg-bolt-elements-prompt-background text-bolt-elements-textPrimary focus:outline-none focus:ring-2 focus:ring-bolt-elements-focus"
+                placeholder="https://github.com/owner/repository"
+                autoFocus
+                value={gitUrl}
+                onChange={(event) => setGitUrl(event.target.value)}
+              />
+              {gitUrlError && <div className="text-xs text-bolt-elements-icon-error">{gitUrlError}</div>}
+            </form>
+          </DialogDescription>
+          <div className="px-5 pb-4 bg-bolt-elements-background-depth-2 flex gap-2 justify-end">
+            <DialogButton type="secondary" onClick={() => setGitDialogOpen(false)}>
+              Cancel
+            </DialogButton>
+            <DialogButton type="primary" onClick={importGitRepository}>
+              Import
+            </DialogButton>
+          </div>
+        </Dialog>
+      </DialogRoot>
+      {draggingZip && (
+        <div className="fixed inset-0 z-max flex items-center justify-center bg-bolt-elements-background-depth-1 opacity-90 pointer-events-none">
+          <div className="flex flex-col items-center gap-2 p-8 rounded-lg border-2 border-dashed border-bolt-elements-borderColorActive text-bolt-elements-textPrimary">
+            <div className="i-ph:file-zip text-4xl" />
+            Drop a zip file to import it
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
+
+function hasFiles(event: DragEvent) {
+  return event.dataTransfer?.types.includes('Files') ?? false;
+}
+
+function isZipFile(file: File) {
+  return file.name.toLowerCase().endsWith('.zip') || file.type === 'application/zip';
+}
+
+interface ImportButtonProps {
+  icon: string;
+  disabled?: boolean;
+  children: ReactNode;
+  onClick: () => void;
+}
+
+function ImportButton({ icon, disabled = false, children, onClick }: ImportButtonProps) {
+  return (
+    <button
+      className="flex items-center gap-2 px-3 py-1.5 rounded-md border border-bolt-elements-borderColor bg-bolt-elements-background-depth-2 text-sm text-bolt-elements-textSecondary enabled:hover:text-bolt-elements-textPrimary disabled:opacity-50 transition-theme"
+      disabled={disabled}
+      onClick={onClick}
+    >
+      <div className={classNames('shrink-0', disabled ? 'i-svg-spinners:90-ring-with-bg' : icon)} />
+      {children}
+    </button>
+  );
+}
@@ -24,12 +24,13 @@ export const Markdown = memo(({ children, html = false, limitedMarkdown = false
       div: ({ className, children, node, ...props }) => {
         if (className?.includes('__boltArtifact__')) {
           const messageId = node?.properties.dataMessageId as string;
+          const artifactIndex = Number(node?.properties.dataArtifactIndex ?? 0);
 
           if (!messageId) {
             logger.error(`Invalid message id ${messageId}`);
           }
 
-          return <Artifact messageId={messageId} />;
+          return <Artifact messageId={messageId} artifactIndex={artifactIndex} />;
         }
 
         return (
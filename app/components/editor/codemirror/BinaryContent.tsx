@@ -1,7 +1,167 @@
-export function BinaryContent() {
+import { useEffect, useState } from 'react';
+
+const IMAGE_TYPES: Record<string, string> = {
+  png: 'image/png',
+  jpg: 'image/jpeg',
+  jpeg: 'image/jpeg',
+  gif: 'image/gif',
+  webp: 'image/webp',
+  avif: 'image/avif',
+  bmp: 'image/bmp',
+  ico: 'image/x-icon',
+  svg: 'image/svg+xml',
+};
+
+const FONT_TYPES = new Set(['ttf', 'otf', 'woff', 'woff2']);
+
+const FONT_SAMPLE = 'The quick brown fox jumps over the lazy dog 0123456789';
+
+interface BinaryContentProps {
+  filePath: string;
+  data?: Uint8Array;
+}
+
+export function BinaryContent({ filePath, data }: BinaryContentProps) {
+  const extension = getExtension(filePath);
+
+  let preview = <span>File format cannot be displayed.</span>;
+
+  if (data && IMAGE_TYPES[extension]) {
+    preview = <ImagePreview data={data} type={IMAGE_TYPES[extension]} />;
+  } else if (data && FONT_TYPES.has(extension)) {
+    preview = <FontPreview data={data} />;
+  }
+
+  return (
+    <div className="flex flex-col items-center justify-center gap-2 absolute inset-0 z-10 p-4 overflow-auto text-sm bg-tk-elements-app-backgroundColor text-tk-elements-app-textColor">
+      {preview}
+      {data && <span className="text-xs text-bolt-elements-textTertiary">{formatSize(data.byteLength)}</span>}
+    </div>
+  );
+}
+
+interface SvgPreviewProps {
+  content: string;
+}
+
+/**
+ * Shows a rendered preview of an SVG file next to its source.
+ */
+export function SvgPreview({ content }: SvgPreviewProps) {
+  const [visible, setVisible] = useState(true);
+  const url = useObjectUrl(content, IMAGE_TYPES.svg);
+
   return (
-    <div className="flex items-center justify-center absolute inset-0 z-10 text-sm bg-tk-elements-app-backgroundColor text-tk-elements-app-textColor">
-      File format cannot be displayed.
+    <div className="absolute right-4 bottom-4 z-10 flex flex-col items-end gap-1">
+      <button
+        className="text-xs px-2 py-0.5 rounded bg-bolt-elements-background-depth-3 text-bolt-elements-textSecondary hover:text-bolt-elements-textPrimary"
+        onClick={() => setVisible(!visible)}
+      >
+        {visible ? 'Hide preview' : 'Show preview'}
+      </button>
+      {visible && url && (
+        <div className="w-48 h-48 p-2 flex items-center justify-center rounded-lg border border-bolt-elements-borderColor bg-bolt-elements-background-depth-2">
+          <img className="max-w-full max-h-full" src={url} alt="SVG preview" />
+        </div>
+      )}
     </div>
   );
 }
+
+export function isSvgFile(filePath: string) {
+  return getExtension(filePath) === 'svg';
+}
+
+function ImagePreview({ data, type }: { data: Uint8Array; type: string }) {
+  const url = useObjectUrl(data, type);
+
+  if (!url) {
+    return null;
+  }
+
+  return <img className="max-w-full max-h-[80%] object-contain" src={url} alt="Preview" />;
+}
+
+let fontCounter = 0;
+
+function FontPreview({ data }: { data: Uint8Array }) {
+  const [fontFamily, setFontFamily] = useState<string>();
+  const [failed, setFailed] = useState(false);
+
+  useEffect(() => {
+    const font = new FontFace(`bolt-font-preview-${fontCounter++}`, data);
+
+    let disposed = false;
+
+    setFailed(false);
+
+    font
+      .load()
+      .then(() => {
+        if (disposed) {
+          return;
+        }
+
+        document.fonts.add(font);
+        setFontFamily(font.family);
+      })
+      .catch(() => {
+        if (!disposed) {
+          setFailed(true);
+        }
+      });
+
+    return () => {
+      disposed = true;
+      document.fonts.delete(font);
+    };
+  }, [data]);
+
+  if (failed) {
+    return <span>Font cannot be displayed.</span>;
+  }
+
+  if (!fontFamily) {
+    return null;
+  }
+
+  return (
+    <div className="flex flex-col gap-2 text-center" style={{ fontFamily }}>
+      <span className="text-4xl">Aa</span>
+      <span className="text-xl">{FONT_SAMPLE}</span>
+      <span className="text-sm">{FONT_SAMPLE.toUpperCase()}</span>
+    </div>
+  );
+}
+
+function useObjectUrl(content: string | Uint8Array, type: string) {
+  const [url, setUrl] = useState<string>();
+
+  useEffect(() => {
+    const objectUrl = URL.createObjectURL(new Blob([content], { type }));
+
+    setUrl(objectUrl);
+
+    return () => {
+      URL.revokeObjectURL(objectUrl);
+    };
+  }, [content, type]);
+
+  return url;
+}
+
+function getExtension(filePath: string) {
+  return filePath.split('.').at(-1)?.toLowerCase() ?? '';
+}
+
+function formatSize(bytes: number) {
+  if (bytes < 1024) {
+    return `${bytes} B`;
+  }
+
+  if (bytes < 1024 * 1024) {
+    return `${(bytes / 1024).toFixed(1)} KB`;
+  }
+
+  return `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+}
@@ -21,7 +21,7 @@ import type { Theme } from '~/types/theme';
 import { classNames } from '~/utils/classNames';
 import { debounce } from '~/utils/debounce';
 import { createScopedLogger, renderLogger } from '~/utils/logger';
-import { BinaryContent } from './BinaryContent';
+import { BinaryContent, isSvgFile, SvgPreview } from './BinaryContent';
 import { getTheme, reconfigureTheme } from './cm-theme';
 import { indentKeyBinding } from './indent';
 import { getLanguage } from './languages';
@@ -31,6 +31,11 @@ const logger = createScopedLogger('CodeMirrorEditor');
 export interface EditorDocument {
   value: string;
   isBinary: boolean;
+
+  /**
+   * Raw bytes of binary files that are shown as a preview.
+   */
+  data?: Uint8Array;
   filePath: string;
   scroll?: ScrollPosition;
 }
@@ -255,7 +260,8 @@ export const CodeMirrorEditor = memo(
 
     return (
       <div className={classNames('relative h-full', className)}>
-        {doc?.isBinary && <BinaryContent />}
+        {doc?.isBinary && <BinaryContent filePath={doc.filePath} data={doc.data} />}
+        {doc && !doc.isBinary && isSvgFile(doc.filePath) && <SvgPreview content={doc.value} />}
         <div className="h-full overflow-hidden" ref={containerRef} />
       </div>
     );
@@ -3,11 +3,15 @@ import { useCallback, useEffect, useRef, useState } from 'react';
 import { toast } from 'react-toastify';
 import { Dialog, DialogButton, DialogDescription, DialogRoot, DialogTitle } from '~/components/ui/Dialog';
 import { IconButton } from '~/components/ui/IconButton';
+import { ShellApprovalSwitch } from '~/components/ui/ShellApprovalSwitch';
 import { ThemeSwitch } from '~/components/ui/ThemeSwitch';
+import { ToolCallingSwitch } from '~/components/ui/ToolCallingSwitch';
 import { db, deleteById, getAll, chatId, type ChatHistoryItem } from '~/lib/persistence';
 import { cubicEasingFn } from '~/utils/easings';
 import { logger } from '~/utils/logger';
 import { HistoryItem } from './HistoryItem';
+import { PathPolicyEditor } from './PathPolicyEditor';
+import { ShellPolicyEditor } from './ShellPolicyEditor';
 import { binDates } from './date-binning';
 
 const menuVariants = {
@@ -31,7 +35,11 @@ const menuVariants = {
   },
 } satisfies Variants;
 
-type DialogContent = { type: 'delete'; item: ChatHistoryItem } | null;
+type DialogContent =
+  | { type: 'delete'; item: ChatHistoryItem }
+  | { type: 'shellPolicy' }
+  | { type: 'pathPolicy' }
+  | null;
 
 export function Menu() {
   const menuRef = useRef<HTMLDivElement>(null);
@@ -160,11 +168,27 @@ export function Menu() {
                   </div>
                 </>
               )}
+              {dialogContent?.type === 'shellPolicy' && <ShellPolicyEditor onClose={closeDialog} />}
+              {dialogContent?.type === 'pathPolicy' && <PathPolicyEditor onClose={closeDialog} />}
             </Dialog>
           </DialogRoot>
         </div>
         <div className="flex items-center border-t border-bolt-elements-borderColor p-4">
-          <ThemeSwitch className="ml-auto" />
+          <ToolCallingSwitch className="ml-auto" />
+          <ShellApprovalSwitch />
+          <IconButton
+            icon="i-ph:list-checks"
+            size="xl"
+            title="Edit the shell policy"
+            onClick={() => setDialogContent({ type: 'shellPolicy' })}
+          />
+          <IconButton
+            icon="i-ph:lock-key"
+            size="xl"
+            title="Edit the protected files"
+            onClick={() => setDialogContent({ type: 'pathPolicy' })}
+          />
+          <ThemeSwitch />
         </div>
       </div>
     </motion.div>
@@ -0,0 +1,47 @@
+import { useStore } from '@nanostores/react';
+import { useState } from 'react';
+import { DialogButton, DialogDescription, DialogTitle } from '~/components/ui/Dialog';
+import { normalizePatterns, PatternListField } from '~/components/ui/PatternListField';
+import { DEFAULT_PATH_POLICY } from '~/lib/runtime/path-policy';
+import { pathPolicyStore, updatePathPolicy } from '~/lib/stores/settings';
+
+interface PathPolicyEditorProps {
+  onClose: () => void;
+}
+
+export function PathPolicyEditor({ onClose }: PathPolicyEditorProps) {
+  const pathPolicy = useStore(pathPolicyStore);
+  const [protectedPaths, setProtectedPaths] = useState(pathPolicy.protectedPaths);
+
+  const save = () => {
+    updatePathPolicy({ protectedPaths: normalizePatterns(protectedPaths) });
+    onClose();
+  };
+
+  return (
+    <>
+      <DialogTitle>Protected Files</DialogTitle>
+      <DialogDescription asChild>
+        <div className="flex flex-col gap-3">
+          <p className="text-sm text-bolt-elements-textSecondary">
+            Actions that write, delete or move these files need your approval. A pattern without a <code>/</code>{' '}
+            matches a file name in any folder, <code>*</code> matches any characters except <code>/</code> and{' '}
+            <code>**</code> matches any characters.
+          </p>
+          <PatternListField label="Protected paths" patterns={protectedPaths} onChange={setProtectedPaths} />
+        </div>
+      </DialogDescription>
+      <div className="px-5 pb-4 bg-bolt-elements-background-depth-2 flex gap-2 justify-end">
+        <DialogButton type="secondary" onClick={() => setProtectedPaths(DEFAULT_PATH_POLICY.protectedPaths)}>
+          Reset
+        </DialogButton>
+        <DialogButton type="secondary" onClick={onClose}>
+          Cancel
+        </DialogButton>
+        <DialogButton type="primary" onClick={save}>
+          Save
+        </DialogButton>
+      </div>
+    </>
+  );
+}
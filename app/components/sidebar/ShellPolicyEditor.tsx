@@ -0,0 +1,67 @@
+import { useStore } from '@nanostores/react';
+import { useState } from 'react';
+import { DialogButton, DialogDescription, DialogTitle } from '~/components/ui/Dialog';
+import { normalizePatterns, PatternListField } from '~/components/ui/PatternListField';
+import { DEFAULT_SHELL_POLICY, type ShellPolicy } from '~/lib/runtime/shell-policy';
+import { shellPolicyStore, updateShellPolicy } from '~/lib/stores/settings';
+
+interface ShellPolicyEditorProps {
+  onClose: () => void;
+}
+
+export function ShellPolicyEditor({ onClose }: ShellPolicyEditorProps) {
+  const shellPolicy = useStore(shellPolicyStore);
+  const [draft, setDraft] = useState<ShellPolicy>(shellPolicy);
+
+  const save = () => {
+    updateShellPolicy({
+      defaultDecision: draft.defaultDecision,
+      allow: normalizePatterns(draft.allow),
+      ask: normalizePatterns(draft.ask),
+      deny: normalizePatterns(draft.deny),
+    });
+
+    onClose();
+  };
+
+  return (
+    <>
+      <DialogTitle>Shell Policy</DialogTitle>
+      <DialogDescription asChild>
+        <div className="flex flex-col gap-3">
+          <p className="text-sm text-bolt-elements-textSecondary">
+            One pattern per line. A pattern matches a command that starts with it, <code>*</code> matches any
+            characters. Deny patterns win over ask patterns which win over allow patterns.
+          </p>
+          <PatternListField label="Allow" patterns={draft.allow} onChange={(allow) => setDraft({ ...draft, allow })} />
+          <PatternListField label="Ask" patterns={draft.ask} onChange={(ask) => setDraft({ ...draft, ask })} />
+          <PatternListField label="Deny" patterns={draft.deny} onChange={(deny) => setDraft({ ...draft, deny })} />
+          <label className="flex items-center justify-between gap-2 text-sm text-bolt-elements-textSecondary">
+            Other commands
+            <select
+              value={draft.defaultDecision}
+              onChange={(event) =>
+                setDraft({ ...draft, defaultDecision: event.target.value as ShellPolicy['defaultDecision'] })
+              }
+              className="p-2 rounded-lg border border-bolt-elements-borderColor bg-bolt-elements-prompt-background text-bolt-elements-textPrimary focus:outline-none focus:ring-2 focus:ring-bolt-elements-focus"
+            >
+              <option value="ask">Ask</option>
+              <option value="allow">Allow</option>
+            </select>
+          </label>
+        </div>
+      </DialogDescription>
+      <div className="px-5 pb-4 bg-bolt-elements-background-depth-2 flex gap-2 justify-end">
+        <DialogButton type="secondary" onClick={() => setDraft({ ...DEFAULT_SHELL_POLICY, enabled: draft.enabled })}>
+          Reset
+        </DialogButton>
+        <DialogButton type="secondary" onClick={onClose}>
+          Cancel
+        </DialogButton>
+        <DialogButton type="primary" onClick={save}>
+          Save
+        </DialogButton>
+      </div>
+    </>
+  );
+}
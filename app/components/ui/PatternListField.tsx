@@ -0,0 +1,35 @@
+import { memo, useId } from 'react';
+
+interface PatternListFieldProps {
+  label: string;
+  patterns: string[];
+  onChange: (patterns: string[]) => void;
+}
+
+/**
+ * Edits a list of patterns with one pattern per line. Empty lines are kept while editing and removed by
+ * `normalizePatterns` before the list is saved.
+ */
+export const PatternListField = memo(({ label, patterns, onChange }: PatternListFieldProps) => {
+  const id = useId();
+
+  return (
+    <div className="flex flex-col gap-1">
+      <label htmlFor={id} className="text-sm font-medium text-bolt-elements-textSecondary">
+        {label}
+      </label>
+      <textarea
+        id={id}
+        rows={4}
+        spellCheck={false}
+        value={patterns.join('\n')}
+        onChange={(event) => onChange(event.target.value.split('\n'))}
+        className="w-full p-2 rounded-lg border border-bolt-elements-borderColor bg-bolt-elements-prompt-background text-bolt-elements-textPrimary font-mono text-xs resize-y focus:outline-none focus:ring-2 focus:ring-bolt-elements-focus"
+      />
+    </div>
+  );
+});
+
+export function normalizePatterns(patterns: string[]) {
+  return [...new Set(patterns.map((pattern) => pattern.trim()).filter((pattern) => pattern.length > 0))];
+}
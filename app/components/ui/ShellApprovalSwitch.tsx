@@ -0,0 +1,29 @@
+import { useStore } from '@nanostores/react';
+import { memo, useEffect, useState } from 'react';
+import { shellPolicyStore, updateShellPolicy } from '~/lib/stores/settings';
+import { IconButton } from './IconButton';
+
+interface ShellApprovalSwitchProps {
+  className?: string;
+}
+
+export const ShellApprovalSwitch = memo(({ className }: ShellApprovalSwitchProps) => {
+  const { enabled } = useStore(shellPolicyStore);
+  const [domLoaded, setDomLoaded] = useState(false);
+
+  useEffect(() => {
+    setDomLoaded(true);
+  }, []);
+
+  return (
+    domLoaded && (
+      <IconButton
+        className={className}
+        icon={enabled ? 'i-ph:shield-check' : 'i-ph:shield'}
+        size="xl"
+        title={enabled ? 'Commands need approval' : 'Commands run without approval'}
+        onClick={() => updateShellPolicy({ enabled: !enabled })}
+      />
+    )
+  );
+});
@@ -0,0 +1,33 @@
+import { useStore } from '@nanostores/react';
+import { memo, useEffect, useState } from 'react';
+import { setToolCalling, toolCallingStore } from '~/lib/stores/settings';
+import { IconButton } from './IconButton';
+
+interface ToolCallingSwitchProps {
+  className?: string;
+}
+
+export const ToolCallingSwitch = memo(({ className }: ToolCallingSwitchProps) => {
+  const { enabled } = useStore(toolCallingStore);
+  const [domLoaded, setDomLoaded] = useState(false);
+
+  useEffect(() => {
+    setDomLoaded(true);
+  }, []);
+
+  return (
+    domLoaded && (
+      <IconButton
+        className={className}
+        icon={enabled ? 'i-ph:wrench' : 'i-ph:brackets-angle'}
+        size="xl"
+        title={
+          enabled
+            ? 'Actions are requested as tool calls from models that support function calling'
+            : 'Actions are requested as artifact tags'
+        }
+        onClick={() => setToolCalling(!enabled)}
+      />
+    )
+  );
+});
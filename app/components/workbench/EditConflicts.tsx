@@ -0,0 +1,127 @@
+import { useStore } from '@nanostores/react';
+import { memo, useMemo } from 'react';
+import { toast } from 'react-toastify';
+import { PanelHeader } from '~/components/ui/PanelHeader';
+import { PanelHeaderButton } from '~/components/ui/PanelHeaderButton';
+import { workbenchStore, type ConflictResolution, type EditConflict } from '~/lib/stores/workbench';
+import { classNames } from '~/utils/classNames';
+import { WORK_DIR } from '~/utils/constants';
+import { diffFiles } from '~/utils/diff';
+
+export const EditConflicts = memo(() => {
+  const conflicts = useStore(workbenchStore.conflicts);
+
+  // the versions of the user and the model are read from the stores while rendering
+  useStore(workbenchStore.files);
+  useStore(workbenchStore.currentDocument);
+
+  const entries = Object.entries(conflicts).filter((entry): entry is [string, EditConflict] => !!entry[1]);
+
+  return (
+    <div className="h-full flex flex-col bg-bolt-elements-background-depth-1">
+      <PanelHeader>
+        <div className="i-ph:git-merge shrink-0" />
+        Edit Conflicts
+      </PanelHeader>
+      <div className="flex-1 overflow-auto p-4 space-y-4">
+        {entries.length === 0 ? (
+          <div className="text-sm text-bolt-elements-textTertiary">No conflicts</div>
+        ) : (
+          entries.map(([filePath, conflict]) => <Conflict key={filePath} filePath={filePath} conflict={conflict} />)
+        )}
+      </div>
+    </div>
+  );
+});
+
+interface ConflictProps {
+  filePath: string;
+  conflict: EditConflict;
+}
+
+const Conflict = memo(({ filePath, conflict }: ConflictProps) => {
+  const ours = workbenchStore.getDocumentContent(filePath);
+  const theirs = workbenchStore.getConflictingContent(filePath);
+  const deleted = workbenchStore.files.get()[filePath] === undefined;
+
+  const resolve = (resolution: ConflictResolution) => {
+    workbenchStore
+      .resolveConflict(filePath, resolution)
+      .then((remainingConflicts) => {
+        if (remainingConflicts > 0) {
+          toast.warning(`${remainingConflicts} conflicting changes were marked in ${getRelativePath(filePath)}`);
+        }
+      })
+      .catch(() => {
+        toast.error(`Failed to resolve the conflict in ${getRelativePath(filePath)}`);
+      });
+  };
+
+  return (
+    <div className="border border-bolt-elements-borderColor rounded-lg overflow-hidden">
+      <div className="flex items-center gap-2 px-3 py-2 text-sm bg-bolt-elements-background-depth-2 border-b border-bolt-elements-borderColor">
+        <span className="truncate text-bolt-elements-textPrimary">{getRelativePath(filePath)}</span>
+        <span className="shrink-0 text-xs text-bolt-elements-textTertiary">
+          {deleted ? 'Deleted' : 'Changed'} by the AI while you had unsaved changes
+        </span>
+        <div className="ml-auto" />
+        <PanelHeaderButton onClick={() => resolve('ours')}>Keep Mine</PanelHeaderButton>
+        <PanelHeaderButton onClick={() => resolve('theirs')}>{deleted ? 'Delete' : 'Use AI Version'}</PanelHeaderButton>
+        {!deleted && <PanelHeaderButton onClick={() => resolve('merge')}>Merge</PanelHeaderButton>}
+      </div>
+      <div className="grid grid-cols-3 divide-x divide-bolt-elements-borderColor">
+        <Version title="Base" filePath={filePath} base={conflict.base} />
+        <Version title="Your changes" filePath={filePath} base={conflict.base} content={ours} />
+        <Version title="AI changes" filePath={filePath} base={conflict.base} content={theirs} />
+      </div>
+    </div>
+  );
+});
+
+interface VersionProps {
+  title: string;
+  filePath: string;
+  base: string;
+
+  /**
+   * Content that is shown as a diff against the base or `undefined` to show the base itself.
+   */
+  content?: string;
+}
+
+const Version = memo(({ title, filePath, base, content }: VersionProps) => {
+  const lines = useMemo(() => {
+    if (content === undefined) {
+      return base.split('\n').map((line) => ` ${line}`);
+    }
+
+    return (diffFiles(filePath, base, content) ?? '').split('\n');
+  }, [filePath, base, content]);
+
+  return (
+    <div className="min-w-0">
+      <div className="px-3 py-1 text-xs text-bolt-elements-textTertiary border-b border-bolt-elements-borderColor">
+        {title}
+      </div>
+      <pre className="m-0 p-3 max-h-96 overflow-auto text-xs leading-5">
+        {lines.map((line, index) => (
+          <div
+            key={index}
+            className={classNames({
+              'text-bolt-elements-icon-success': line.startsWith('+'),
+              'text-bolt-elements-icon-error': line.startsWith('-'),
+              'text-bolt-elements-textTertiary': line.startsWith('@@') || line.startsWith('\\'),
+              'text-bolt-elements-textSecondary': line.startsWith(' '),
+            })}
+          >
+            {line || ' '}
+          </div>
+        ))}
+      </pre>
+    </div>
+  );
+});
+
+function getRelativePath(filePath: string) {
+  return filePath.replace(`${WORK_DIR}/`, '');
+}
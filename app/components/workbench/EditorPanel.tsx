@@ -1,6 +1,7 @@
 import { useStore } from '@nanostores/react';
 import { memo, useEffect, useMemo, useRef, useState } from 'react';
 import { Panel, PanelGroup, PanelResizeHandle, type ImperativePanelHandle } from 'react-resizable-panels';
+import { toast } from 'react-toastify';
 import {
   CodeMirrorEditor,
   type EditorDocument,
@@ -122,6 +123,23 @@ export const EditorPanel = memo(
       }
     };
 
+    const onFilesDrop = (folderPath: string, droppedFiles: File[]) => {
+      workbenchStore
+        .uploadFiles(folderPath, droppedFiles)
+        .then((filePaths) => {
+          toast.success(`Uploaded ${filePaths.length} ${filePaths.length === 1 ? 'file' : 'files'}`);
+        })
+        .catch(() => {
+          toast.error('Failed to upload files');
+        });
+    };
+
+    const runFileOperation = (operation: Promise<void>, description: string) => {
+      operation.catch((error) => {
+        toast.error(`Failed to ${description}: ${error instanceof Error ? error.message : String(error)}`);
+      });
+    };
+
     return (
       <PanelGroup direction="vertical">
         <Panel defaultSize={showTerminal ? DEFAULT_EDITOR_SIZE : 100} minSize={20}>
@@ -140,6 +158,13 @@ export const EditorPanel = memo(
                   rootFolder={WORK_DIR}
                   selectedFile={selectedFile}
                   onFileSelect={onFileSelect}
+                  onFilesDrop={onFilesDrop}
+                  onFileCreate={(filePath) => runFileOperation(workbenchStore.createFile(filePath), 'create the file')}
+                  onFolderCreate={(folderPath) =>
+                    runFileOperation(workbenchStore.createFolder(folderPath), 'create the folder')
+                  }
+                  onMove={(oldPath, newPath) => runFileOperation(workbenchStore.movePath(oldPath, newPath), 'move')}
+                  onDelete={(path) => runFileOperation(workbenchStore.deletePath(path), 'delete')}
                 />
               </div>
             </Panel>
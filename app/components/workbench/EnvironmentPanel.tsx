@@ -0,0 +1,104 @@
+import { useStore } from '@nanostores/react';
+import { memo, useState } from 'react';
+import { IconButton } from '~/components/ui/IconButton';
+import { PanelHeader } from '~/components/ui/PanelHeader';
+import { PanelHeaderButton } from '~/components/ui/PanelHeaderButton';
+import { isValidVariableName } from '~/lib/stores/env';
+import { workbenchStore } from '~/lib/stores/workbench';
+
+const inputClassName =
+  'min-w-0 p-1 text-sm rounded border border-bolt-elements-borderColor bg-bolt-elements-prompt-background text-bolt-elements-textPrimary focus:outline-none focus:ring-2 focus:ring-bolt-elements-focus';
+
+export const EnvironmentPanel = memo(() => {
+  const { variables, writeDotEnv } = useStore(workbenchStore.environment);
+
+  const [name, setName] = useState('');
+  const [value, setValue] = useState('');
+
+  const nameError = name && !isValidVariableName(name) ? 'Use letters, digits and underscores only' : undefined;
+
+  const addVariable = () => {
+    if (!name || nameError) {
+      return;
+    }
+
+    workbenchStore.setEnvVariable(name, value);
+
+    setName('');
+    setValue('');
+  };
+
+  return (
+    <div className="h-full flex flex-col bg-bolt-elements-background-depth-1">
+      <PanelHeader>
+        <div className="i-ph:key shrink-0" />
+        Environment Variables
+        <div className="ml-auto" />
+        <PanelHeaderButton onClick={() => workbenchStore.setWriteDotEnv(!writeDotEnv)}>
+          <div className={writeDotEnv ? 'i-ph:check-square' : 'i-ph:square'} />
+          Write .env
+        </PanelHeaderButton>
+      </PanelHeader>
+      <div className="flex-1 overflow-auto p-4 space-y-2">
+        <p className="text-xs text-bolt-elements-textTertiary">
+          Variables are passed to commands and terminals that are started afterwards. Their values are never sent to the
+          AI and are masked in the output of actions.
+        </p>
+        {Object.entries(variables).map(([variableName, variableValue]) => (
+          <Variable key={variableName} name={variableName} value={variableValue} />
+        ))}
+        <form
+          className="flex items-center gap-2"
+          onSubmit={(event) => {
+            event.preventDefault();
+            addVariable();
+          }}
+        >
+          <input
+            className={`${inputClassName} w-1/3 font-mono`}
+            placeholder="NAME"
+            value={name}
+            onChange={(event) => setName(event.target.value.trim())}
+          />
+          <input
+            className={`${inputClassName} flex-1 font-mono`}
+            type="password"
+            placeholder="Value"
+            value={value}
+            onChange={(event) => setValue(event.target.value)}
+          />
+          {/* submits the form */}
+          <IconButton icon="i-ph:plus" title="Add variable" disabled={!name || !!nameError} />
+        </form>
+        {nameError && <div className="text-xs text-bolt-elements-icon-error">{nameError}</div>}
+      </div>
+    </div>
+  );
+});
+
+interface VariableProps {
+  name: string;
+  value: string;
+}
+
+const Variable = memo(({ name, value }: VariableProps) => {
+  const [visible, setVisible] = useState(false);
+
+  return (
+    <div className="flex items-center gap-2">
+      <span className="w-1/3 truncate p-1 text-sm font-mono text-bolt-elements-textPrimary">{name}</span>
+      <input
+        className={`${inputClassName} flex-1 font-mono`}
+        type={visible ? 'text' : 'password'}
+        value={value}
+        onChange={(event) => workbenchStore.setEnvVariable(name, event.target.value)}
+      />
+      <IconButton
+        icon={visible ? 'i-ph:eye-slash' : 'i-ph:eye'}
+        title={visible ? 'Hide value' : 'Show value'}
+        onClick={() => setVisible(!visible)}
+      />
+      <IconButton icon="i-ph:trash" title="Remove variable" onClick={() => workbenchStore.removeEnvVariable(name)} />
+    </div>
+  );
+});
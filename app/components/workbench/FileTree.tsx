@@ -1,4 +1,17 @@
-import { memo, useEffect, useMemo, useState, type ReactNode } from 'react';
+import * as DropdownMenu from '@radix-ui/react-dropdown-menu';
+import {
+  Fragment,
+  memo,
+  useEffect,
+  useMemo,
+  useRef,
+  useState,
+  type DragEvent,
+  type MouseEvent,
+  type ReactNode,
+} from 'react';
+import { Dialog, DialogButton, DialogDescription, DialogRoot, DialogTitle } from '~/components/ui/Dialog';
+import { isPathInFolder } from '~/lib/runtime/file-utils';
 import type { FileMap } from '~/lib/stores/files';
 import { classNames } from '~/utils/classNames';
 import { createScopedLogger, renderLogger } from '~/utils/logger';
@@ -8,6 +21,9 @@ const logger = createScopedLogger('FileTree');
 const NODE_PADDING_LEFT = 8;
 const DEFAULT_HIDDEN_FILES = [/\/node_modules\//, /\/\.next/, /\/\.astro/];
 
+// data type of nodes that are dragged within the tree to move them
+const MOVE_DATA_TYPE = 'application/x-bolt-file-path';
+
 interface Props {
   files?: FileMap;
   selectedFile?: string;
@@ -19,8 +35,41 @@ interface Props {
   hiddenFiles?: Array<string | RegExp>;
   unsavedFiles?: Set<string>;
   className?: string;
+
+  /**
+   * Called with the target folder when the user drops files from their computer into the tree.
+   */
+  onFilesDrop?: (folderPath: string, files: File[]) => void;
+
+  /**
+   * The following callbacks enable the context menu and moving nodes by dragging them.
+   */
+  onFileCreate?: (filePath: string) => void;
+  onFolderCreate?: (folderPath: string) => void;
+  onMove?: (oldPath: string, newPath: string) => void;
+  onDelete?: (path: string) => void;
+}
+
+interface NodeHandlers {
+  draggable?: boolean;
+  onDragStart?: (event: DragEvent) => void;
+  onDragOver?: (event: DragEvent) => void;
+  onDrop?: (event: DragEvent) => void;
+  onContextMenu?: (event: MouseEvent) => void;
 }
 
+interface ContextMenuState {
+  x: number;
+  y: number;
+
+  /**
+   * The node that was clicked or `undefined` for the root folder.
+   */
+  node?: Node;
+}
+
+type EditState = { type: 'rename'; node: Node } | { type: 'file' | 'folder'; folderPath: string };
+
 export const FileTree = memo(
   ({
     files = {},
@@ -33,6 +82,11 @@ export const FileTree = memo(
     hiddenFiles,
     className,
     unsavedFiles,
+    onFilesDrop,
+    onFileCreate,
+    onFolderCreate,
+    onMove,
+    onDelete,
   }: Props) => {
     renderLogger.trace('FileTree');
 
@@ -110,9 +164,171 @@ export const FileTree = memo(
       });
     };
 
+    const rootPath = rootFolder ?? '/';
+    const editable = !!(onFileCreate || onFolderCreate || onMove || onDelete);
+
+    const [dropFolder, setDropFolder] = useState<string>();
+    const [contextMenu, setContextMenu] = useState<ContextMenuState>();
+    const [editState, setEditState] = useState<EditState>();
+    const [nodeToDelete, setNodeToDelete] = useState<Node>();
+
+    const startCreation = (type: 'file' | 'folder', folderPath: string) => {
+      setCollapsedFolders((prevSet) => {
+        const newSet = new Set(prevSet);
+        newSet.delete(folderPath);
+
+        return newSet;
+      });
+
+      setEditState({ type, folderPath });
+    };
+
+    const submitName = (name: string) => {
+      const state = editState;
+
+      setEditState(undefined);
+
+      if (!state || !name) {
+        return;
+      }
+
+      if (state.type === 'rename') {
+        if (name !== state.node.name) {
+          onMove?.(state.node.fullPath, joinPath(getParentPath(state.node.fullPath), name));
+        }
+
+        return;
+      }
+
+      const path = joinPath(state.folderPath, name);
+
+      if (state.type === 'file') {
+        onFileCreate?.(path);
+      } else {
+        onFolderCreate?.(path);
+      }
+    };
+
+    const getNodeHandlers = (folderPath: string, node?: Node): NodeHandlers => {
+      const handlers: NodeHandlers = {};
+
+      if (editable) {
+        handlers.onContextMenu = (event) => {
+          event.preventDefault();
+          event.stopPropagation();
+
+          setContextMenu({ x: event.clientX, y: event.clientY, node });
+        };
+      }
+
+      if (node && onMove) {
+        handlers.draggable = true;
+
+        handlers.onDragStart = (event) => {
+          event.dataTransfer.setData(MOVE_DATA_TYPE, node.fullPath);
+          event.dataTransfer.effectAllowed = 'move';
+        };
+      }
+
+      if (!onFilesDrop && !onMove) {
+        return handlers;
+      }
+
+      handlers.onDragOver = (event) => {
+        const { types } = event.dataTransfer;
+
+        // only files from the computer of the user and nodes of the tree can be dropped
+        if (!(onFilesDrop && types.includes('Files')) && !(onMove && types.includes(MOVE_DATA_TYPE))) {
+          return;
+        }
+
+        event.preventDefault();
+        event.stopPropagation();
+
+        setDropFolder(folderPath);
+      };
+
+      handlers.onDrop = (event) => {
+        event.preventDefault();
+        event.stopPropagation();
+
+        setDropFolder(undefined);
+
+        const movedPath = event.dataTransfer.getData(MOVE_DATA_TYPE);
+
+        if (movedPath) {
+          const newPath = joinPath(folderPath, getName(movedPath));
+
+          // a folder can't be moved into itself
+          if (newPath !== movedPath && !isPathInFolder(folderPath, movedPath)) {
+            onMove?.(movedPath, newPath);
+          }
+
+          return;
+        }
+
+        const droppedFiles = Array.from(event.dataTransfer.files);
+
+        if (droppedFiles.length > 0) {
+          onFilesDrop?.(folderPath, droppedFiles);
+        }
+      };
+
+      return handlers;
+    };
+
+    const renderNameInput = (folderPath: string, depth: number) => {
+      if (editState?.type !== 'file' && editState?.type !== 'folder') {
+        return null;
+      }
+
+      if (editState.folderPath !== folderPath) {
+        return null;
+      }
+
+      return (
+        <NameInput
+          key="new-node"
+          depth={depth}
+          iconClasses={editState.type === 'file' ? 'i-ph:file-duotone scale-98' : 'i-ph:caret-right scale-98'}
+          onSubmit={submitName}
+          onCancel={() => setEditState(undefined)}
+        />
+      );
+    };
+
+    const menuNode = contextMenu?.node;
+
+    // the input for new nodes in the root folder is shown at the top if the root folder itself is hidden
+    const showRootNameInput = !filteredFileList.some((node) => node.fullPath === rootPath);
+
     return (
-      <div className={classNames('text-sm', className)}>
+      <div
+        className={classNames('text-sm', className, {
+          'outline-dashed outline-1 -outline-offset-1 outline-bolt-elements-borderColorActive': dropFolder === rootPath,
+        })}
+        {...getNodeHandlers(rootPath)}
+        onDragLeave={(event) => {
+          if (!(event.relatedTarget instanceof Element) || !event.currentTarget.contains(event.relatedTarget)) {
+            setDropFolder(undefined);
+          }
+        }}
+      >
+        {showRootNameInput && renderNameInput(rootPath, rootFolder === '/' && !hideRoot ? 1 : 0)}
         {filteredFileList.map((fileOrFolder) => {
+          if (editState?.type === 'rename' && editState.node.fullPath === fileOrFolder.fullPath) {
+            return (
+              <NameInput
+                key={fileOrFolder.id}
+                depth={fileOrFolder.depth}
+                iconClasses={fileOrFolder.kind === 'file' ? 'i-ph:file-duotone scale-98' : 'i-ph:caret-right scale-98'}
+                defaultValue={fileOrFolder.name}
+                onSubmit={submitName}
+                onCancel={() => setEditState(undefined)}
+              />
+            );
+          }
+
           switch (fileOrFolder.kind) {
             case 'file': {
               return (
@@ -121,6 +337,7 @@ export const FileTree = memo(
                   selected={selectedFile === fileOrFolder.fullPath}
                   file={fileOrFolder}
                   unsavedChanges={unsavedFiles?.has(fileOrFolder.fullPath)}
+                  handlers={getNodeHandlers(getParentPath(fileOrFolder.fullPath), fileOrFolder)}
                   onClick={() => {
                     onFileSelect?.(fileOrFolder.fullPath);
                   }}
@@ -129,15 +346,19 @@ export const FileTree = memo(
             }
             case 'folder': {
               return (
-                <Folder
-                  key={fileOrFolder.id}
-                  folder={fileOrFolder}
-                  selected={allowFolderSelection && selectedFile === fileOrFolder.fullPath}
-                  collapsed={collapsedFolders.has(fileOrFolder.fullPath)}
-                  onClick={() => {
-                    toggleCollapseState(fileOrFolder.fullPath);
-                  }}
-                />
+                <Fragment key={fileOrFolder.id}>
+                  <Folder
+                    folder={fileOrFolder}
+                    selected={allowFolderSelection && selectedFile === fileOrFolder.fullPath}
+                    collapsed={collapsedFolders.has(fileOrFolder.fullPath)}
+                    dropTarget={dropFolder === fileOrFolder.fullPath}
+                    handlers={getNodeHandlers(fileOrFolder.fullPath, fileOrFolder)}
+                    onClick={() => {
+                      toggleCollapseState(fileOrFolder.fullPath);
+                    }}
+                  />
+                  {renderNameInput(fileOrFolder.fullPath, fileOrFolder.depth + 1)}
+                </Fragment>
               );
             }
             default: {
@@ -145,6 +366,50 @@ export const FileTree = memo(
             }
           }
         })}
+        {contextMenu && (
+          <NodeContextMenu
+            {...contextMenu}
+            onNewFile={onFileCreate && (() => startCreation('file', getTargetFolder(contextMenu.node, rootPath)))}
+            onNewFolder={onFolderCreate && (() => startCreation('folder', getTargetFolder(contextMenu.node, rootPath)))}
+            onRename={onMove && menuNode && (() => setEditState({ type: 'rename', node: menuNode }))}
+            onDelete={onDelete && menuNode && (() => setNodeToDelete(menuNode))}
+            onClose={() => setContextMenu(undefined)}
+          />
+        )}
+        {editable && (
+          <DialogRoot open={nodeToDelete !== undefined}>
+            <Dialog onBackdrop={() => setNodeToDelete(undefined)} onClose={() => setNodeToDelete(undefined)}>
+              {nodeToDelete && (
+                <>
+                  <DialogTitle>Delete {nodeToDelete.kind === 'file' ? 'File' : 'Folder'}?</DialogTitle>
+                  <DialogDescription asChild>
+                    <div>
+                      <p>
+                        You are about to delete <strong>{nodeToDelete.name}</strong>
+                        {nodeToDelete.kind === 'folder' && ' with all of its content'}.
+                      </p>
+                      <p className="mt-1">Unsaved changes of deleted files are lost.</p>
+                    </div>
+                  </DialogDescription>
+                  <div className="px-5 pb-4 bg-bolt-elements-background-depth-2 flex gap-2 justify-end">
+                    <DialogButton type="secondary" onClick={() => setNodeToDelete(undefined)}>
+                      Cancel
+                    </DialogButton>
+                    <DialogButton
+                      type="danger"
+                      onClick={() => {
+                        onDelete?.(nodeToDelete.fullPath);
+                        setNodeToDelete(undefined);
+                      }}
+                    >
+                      Delete
+                    </DialogButton>
+                  </div>
+                </>
+              )}
+            </Dialog>
+          </DialogRoot>
+        )}
       </div>
     );
   },
@@ -152,22 +417,146 @@ export const FileTree = memo(
 
 export default FileTree;
 
+interface NodeContextMenuProps extends ContextMenuState {
+  onNewFile?: () => void;
+  onNewFolder?: () => void;
+  onRename?: () => void;
+  onDelete?: () => void;
+  onClose: () => void;
+}
+
+function NodeContextMenu({ x, y, onNewFile, onNewFolder, onRename, onDelete, onClose }: NodeContextMenuProps) {
+  const items = [
+    { label: 'New File', icon: 'i-ph:file-plus', onSelect: onNewFile },
+    { label: 'New Folder', icon: 'i-ph:folder-plus', onSelect: onNewFolder },
+    { label: 'Rename', icon: 'i-ph:pencil-simple', onSelect: onRename },
+    { label: 'Delete', icon: 'i-ph:trash', onSelect: onDelete },
+  ];
+
+  return (
+    <DropdownMenu.Root
+      open
+      onOpenChange={(open) => {
+        if (!open) {
+          onClose();
+        }
+      }}
+    >
+      <DropdownMenu.Trigger asChild>
+        <div className="fixed w-0 h-0" style={{ left: x, top: y }} />
+      </DropdownMenu.Trigger>
+      <DropdownMenu.Portal>
+        <DropdownMenu.Content
+          className="z-file-tree-context-menu min-w-[160px] py-1 rounded-lg border border-bolt-elements-borderColor bg-bolt-elements-background-depth-2 shadow-sm"
+          align="start"
+          side="bottom"
+          onCloseAutoFocus={(event) => {
+            // keeps the focus in the input for new names instead of returning it to the trigger
+            event.preventDefault();
+          }}
+        >
+          {items.map(
+            ({ label, icon, onSelect }) =>
+              onSelect && (
+                <DropdownMenu.Item
+                  key={label}
+                  className="flex items-center gap-2 px-3 py-1 text-sm cursor-pointer outline-none text-bolt-elements-textPrimary focus:bg-bolt-elements-item-backgroundActive"
+                  onSelect={onSelect}
+                >
+                  <div className={classNames('shrink-0', icon)} />
+                  {label}
+                </DropdownMenu.Item>
+              ),
+          )}
+        </DropdownMenu.Content>
+      </DropdownMenu.Portal>
+    </DropdownMenu.Root>
+  );
+}
+
+interface NameInputProps {
+  depth: number;
+  iconClasses: string;
+  defaultValue?: string;
+  onSubmit: (name: string) => void;
+  onCancel: () => void;
+}
+
+function NameInput({ depth, iconClasses, defaultValue = '', onSubmit, onCancel }: NameInputProps) {
+  const [value, setValue] = useState(defaultValue);
+
+  // the input loses the focus when it's removed after submitting or canceling
+  const doneRef = useRef(false);
+
+  const finish = (submit: boolean) => {
+    if (doneRef.current) {
+      return;
+    }
+
+    doneRef.current = true;
+
+    if (submit) {
+      onSubmit(value.trim());
+    } else {
+      onCancel();
+    }
+  };
+
+  return (
+    <div
+      className="flex items-center gap-1.5 w-full pr-2 border-2 border-transparent py-0.5"
+      style={{ paddingLeft: `${6 + depth * NODE_PADDING_LEFT}px` }}
+    >
+      <div className={classNames('scale-120 shrink-0 text-bolt-elements-item-contentDefault', iconClasses)}></div>
+      <input
+        className="w-full min-w-0 px-1 text-sm rounded bg-bolt-elements-prompt-background text-bolt-elements-textPrimary outline-none ring-1 ring-bolt-elements-focus"
+        autoFocus
+        value={value}
+        onChange={(event) => setValue(event.target.value)}
+        onFocus={(event) => {
+          // select the name without the extension like other editors
+          const extensionIndex = defaultValue.lastIndexOf('.');
+          event.target.setSelectionRange(0, extensionIndex > 0 ? extensionIndex : defaultValue.length);
+        }}
+        onBlur={() => finish(true)}
+        onKeyDown={(event) => {
+          if (event.key === 'Enter') {
+            finish(true);
+          } else if (event.key === 'Escape') {
+            finish(false);
+          }
+        }}
+      />
+    </div>
+  );
+}
+
 interface FolderProps {
   folder: FolderNode;
   collapsed: boolean;
   selected?: boolean;
+  dropTarget?: boolean;
+  handlers?: NodeHandlers;
   onClick: () => void;
 }
 
-function Folder({ folder: { depth, name }, collapsed, selected = false, onClick }: FolderProps) {
+function Folder({
+  folder: { depth, name },
+  collapsed,
+  selected = false,
+  dropTarget = false,
+  handlers,
+  onClick,
+}: FolderProps) {
   return (
     <NodeButton
       className={classNames('group', {
         'bg-transparent text-bolt-elements-item-contentDefault hover:text-bolt-elements-item-contentActive hover:bg-bolt-elements-item-backgroundActive':
-          !selected,
-        'bg-bolt-elements-item-backgroundAccent text-bolt-elements-item-contentAccent': selected,
+          !selected && !dropTarget,
+        'bg-bolt-elements-item-backgroundAccent text-bolt-elements-item-contentAccent': selected || dropTarget,
       })}
       depth={depth}
+      handlers={handlers}
       iconClasses={classNames({
         'i-ph:caret-right scale-98': collapsed,
         'i-ph:caret-down scale-98': !collapsed,
@@ -183,10 +572,11 @@ interface FileProps {
   file: FileNode;
   selected: boolean;
   unsavedChanges?: boolean;
+  handlers?: NodeHandlers;
   onClick: () => void;
 }
 
-function File({ file: { depth, name }, onClick, selected, unsavedChanges = false }: FileProps) {
+function File({ file: { depth, name }, onClick, selected, unsavedChanges = false, handlers }: FileProps) {
   return (
     <NodeButton
       className={classNames('group', {
@@ -194,6 +584,7 @@ function File({ file: { depth, name }, onClick, selected, unsavedChanges = false
         'bg-bolt-elements-item-backgroundAccent text-bolt-elements-item-contentAccent': selected,
       })}
       depth={depth}
+      handlers={handlers}
       iconClasses={classNames('i-ph:file-duotone scale-98', {
         'group-hover:text-bolt-elements-item-contentActive': !selected,
       })}
@@ -216,12 +607,14 @@ interface ButtonProps {
   iconClasses: string;
   children: ReactNode;
   className?: string;
+  handlers?: NodeHandlers;
   onClick?: () => void;
 }
 
-function NodeButton({ depth, iconClasses, onClick, className, children }: ButtonProps) {
+function NodeButton({ depth, iconClasses, onClick, className, handlers, children }: ButtonProps) {
   return (
     <button
+      {...handlers}
       className={classNames(
         'flex items-center gap-1.5 w-full pr-2 border-2 border-transparent text-faded py-0.5',
         className,
@@ -318,6 +711,29 @@ function buildFileList(
   return sortFileList(rootFolder, fileList, hideRoot);
 }
 
+function getParentPath(fullPath: string) {
+  return fullPath.slice(0, fullPath.lastIndexOf('/')) || '/';
+}
+
+function getName(fullPath: string) {
+  return fullPath.slice(fullPath.lastIndexOf('/') + 1);
+}
+
+function joinPath(folderPath: string, name: string) {
+  return `${folderPath === '/' ? '' : folderPath}/${name}`;
+}
+
+/**
+ * Returns the folder in which new files are created from the context menu of a node.
+ */
+function getTargetFolder(node: Node | undefined, rootPath: string) {
+  if (!node) {
+    return rootPath;
+  }
+
+  return node.kind === 'folder' ? node.fullPath : getParentPath(node.fullPath);
+}
+
 function isHiddenFile(filePath: string, fileName: string, hiddenFiles: Array<string | RegExp>) {
   return hiddenFiles.some((pathOrRegex) => {
     if (typeof pathOrRegex === 'string') {
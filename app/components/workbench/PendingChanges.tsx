@@ -0,0 +1,95 @@
+import { useStore } from '@nanostores/react';
+import { memo, useMemo } from 'react';
+import { toast } from 'react-toastify';
+import { PanelHeader } from '~/components/ui/PanelHeader';
+import { PanelHeaderButton } from '~/components/ui/PanelHeaderButton';
+import type { StagedChange } from '~/lib/stores/staging';
+import { workbenchStore } from '~/lib/stores/workbench';
+import { classNames } from '~/utils/classNames';
+import { WORK_DIR } from '~/utils/constants';
+import { diffFiles } from '~/utils/diff';
+
+export const PendingChanges = memo(() => {
+  const stagedChanges = useStore(workbenchStore.stagedChanges);
+
+  const changes = Object.entries(stagedChanges).filter((entry): entry is [string, StagedChange] => !!entry[1]);
+
+  const acceptAll = () => {
+    workbenchStore.acceptAllChanges().catch(() => {
+      toast.error('Failed to apply changes');
+    });
+  };
+
+  return (
+    <div className="h-full flex flex-col bg-bolt-elements-background-depth-1">
+      <PanelHeader>
+        <div className="i-ph:git-diff shrink-0" />
+        Pending Changes
+        <div className="ml-auto" />
+        <PanelHeaderButton disabled={changes.length === 0} onClick={acceptAll}>
+          <div className="i-ph:check" />
+          Accept All
+        </PanelHeaderButton>
+        <PanelHeaderButton disabled={changes.length === 0} onClick={() => workbenchStore.rejectAllChanges()}>
+          <div className="i-ph:x" />
+          Reject All
+        </PanelHeaderButton>
+      </PanelHeader>
+      <div className="flex-1 overflow-auto p-4 space-y-4">
+        {changes.length === 0 ? (
+          <div className="text-sm text-bolt-elements-textTertiary">No pending changes</div>
+        ) : (
+          changes.map(([filePath, change]) => <ChangeDiff key={filePath} filePath={filePath} change={change} />)
+        )}
+      </div>
+    </div>
+  );
+});
+
+interface ChangeDiffProps {
+  filePath: string;
+  change: StagedChange;
+}
+
+const ChangeDiff = memo(({ filePath, change }: ChangeDiffProps) => {
+  const originalContent = workbenchStore.getOriginalContent(filePath);
+
+  const diff = useMemo(() => {
+    return diffFiles(filePath, originalContent, change.content ?? '') ?? '';
+  }, [filePath, originalContent, change.content]);
+
+  const label = change.content === null ? 'Deleted' : originalContent === '' ? 'New' : 'Modified';
+
+  const accept = () => {
+    workbenchStore.acceptChange(filePath).catch(() => {
+      toast.error(`Failed to apply changes to ${filePath}`);
+    });
+  };
+
+  return (
+    <div className="border border-bolt-elements-borderColor rounded-lg overflow-hidden">
+      <div className="flex items-center gap-2 px-3 py-2 text-sm bg-bolt-elements-background-depth-2 border-b border-bolt-elements-borderColor">
+        <span className="truncate text-bolt-elements-textPrimary">{filePath.replace(`${WORK_DIR}/`, '')}</span>
+        <span className="shrink-0 text-xs text-bolt-elements-textTertiary">{label}</span>
+        <div className="ml-auto" />
+        <PanelHeaderButton onClick={accept}>Accept</PanelHeaderButton>
+        <PanelHeaderButton onClick={() => workbenchStore.rejectChange(filePath)}>Reject</PanelHeaderButton>
+      </div>
+      <pre className="m-0 p-3 max-h-96 overflow-auto text-xs leading-5">
+        {diff.split('\n').map((line, index) => (
+          <div
+            key={index}
+            className={classNames({
+              'text-bolt-elements-icon-success': line.startsWith('+'),
+              'text-bolt-elements-icon-error': line.startsWith('-'),
+              'text-bolt-elements-textTertiary': line.startsWith('@@') || line.startsWith('\\'),
+              'text-bolt-elements-textSecondary': line.startsWith(' '),
+            })}
+          >
+            {line || ' '}
+          </div>
+        ))}
+      </pre>
+    </div>
+  );
+});
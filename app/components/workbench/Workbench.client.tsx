@@ -14,7 +14,10 @@ import { workbenchStore, type WorkbenchViewType } from '~/lib/stores/workbench';
 import { classNames } from '~/utils/classNames';
 import { cubicEasingFn } from '~/utils/easings';
 import { renderLogger } from '~/utils/logger';
+import { EditConflicts } from './EditConflicts';
 import { EditorPanel } from './EditorPanel';
+import { EnvironmentPanel } from './EnvironmentPanel';
+import { PendingChanges } from './PendingChanges';
 import { Preview } from './Preview';
 
 interface WorkspaceProps {
@@ -64,6 +67,18 @@ export const Workbench = memo(({ chatStarted, isStreaming }: WorkspaceProps) =>
   const unsavedFiles = useStore(workbenchStore.unsavedFiles);
   const files = useStore(workbenchStore.files);
   const selectedView = useStore(workbenchStore.currentView);
+  const reviewMode = useStore(workbenchStore.reviewMode);
+  const pendingChangesCount = useStore(
+    computed(workbenchStore.stagedChanges, (changes) => Object.values(changes).filter(Boolean).length),
+  );
+
+  const conflictsCount = useStore(
+    computed(workbenchStore.conflicts, (conflicts) => Object.values(conflicts).filter(Boolean).length),
+  );
+
+  const [showPendingChanges, setShowPendingChanges] = useState(false);
+  const [showConflicts, setShowConflicts] = useState(false);
+  const [showEnvironment, setShowEnvironment] = useState(false);
 
   const setSelectedView = (view: WorkbenchViewType) => {
     workbenchStore.currentView.set(view);
@@ -79,6 +94,15 @@ export const Workbench = memo(({ chatStarted, isStreaming }: WorkspaceProps) =>
     workbenchStore.setDocuments(files);
   }, [files]);
 
+  useEffect(() => {
+    // show new changes right away so that they can be reviewed while the response is streaming
+    setShowPendingChanges(pendingChangesCount > 0);
+  }, [pendingChangesCount > 0]);
+
+  useEffect(() => {
+    setShowConflicts(conflictsCount > 0);
+  }, [conflictsCount > 0]);
+
   const onEditorChange = useCallback<OnEditorChange>((update) => {
     workbenchStore.setCurrentDocumentContent(update.content);
   }, []);
@@ -138,6 +162,46 @@ export const Workbench = memo(({ chatStarted, isStreaming }: WorkspaceProps) =>
               <div className="flex items-center px-3 py-2 border-b border-bolt-elements-borderColor">
                 <Slider selected={selectedView} options={sliderOptions} setSelected={setSelectedView} />
                 <div className="ml-auto" />
+                <PanelHeaderButton
+                  className="mr-1 text-sm"
+                  onClick={() => {
+                    workbenchStore.reviewMode.set(!reviewMode);
+                  }}
+                >
+                  <div className={reviewMode ? 'i-ph:check-square' : 'i-ph:square'} />
+                  Review Mode
+                </PanelHeaderButton>
+                <PanelHeaderButton
+                  className="mr-1 text-sm"
+                  onClick={() => {
+                    setShowEnvironment(!showEnvironment);
+                  }}
+                >
+                  <div className="i-ph:key" />
+                  Environment
+                </PanelHeaderButton>
+                {pendingChangesCount > 0 && (
+                  <PanelHeaderButton
+                    className="mr-1 text-sm"
+                    onClick={() => {
+                      setShowPendingChanges(!showPendingChanges);
+                    }}
+                  >
+                    <div className="i-ph:git-diff" />
+                    {`Pending Changes (${pendingChangesCount})`}
+                  </PanelHeaderButton>
+                )}
+                {conflictsCount > 0 && (
+                  <PanelHeaderButton
+                    className="mr-1 text-sm"
+                    onClick={() => {
+                      setShowConflicts(!showConflicts);
+                    }}
+                  >
+                    <div className="i-ph:git-merge" />
+                    {`Conflicts (${conflictsCount})`}
+                  </PanelHeaderButton>
+                )}
                 {selectedView === 'code' && (
                   <>
                     <PanelHeaderButton
@@ -222,6 +286,21 @@ export const Workbench = memo(({ chatStarted, isStreaming }: WorkspaceProps) =>
                 >
                   <Preview />
                 </View>
+                {showPendingChanges && pendingChangesCount > 0 && (
+                  <div className="absolute inset-0 z-10">
+                    <PendingChanges />
+                  </div>
+                )}
+                {showConflicts && conflictsCount > 0 && (
+                  <div className="absolute inset-0 z-10">
+                    <EditConflicts />
+                  </div>
+                )}
+                {showEnvironment && (
+                  <div className="absolute inset-0 z-10">
+                    <EnvironmentPanel />
+                  </div>
+                )}
               </div>
             </div>
           </div>
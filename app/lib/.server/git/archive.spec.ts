@@ -0,0 +1,55 @@
+import { createServer, type Server } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import { fetchRepositoryArchive } from './archive';
+
+describe('fetchRepositoryArchive', () => {
+  let server: Server;
+  let apiUrl: string;
+
+  const requests: string[] = [];
+
+  beforeAll(async () => {
+    // mocks the zipball endpoint of the GitHub API
+    server = createServer((request, response) => {
+      requests.push(request.url ?? '');
+
+      if (request.url?.startsWith('/repos/owner/app/zipball')) {
+        response.writeHead(200, { 'Content-Type': 'application/zip' });
+        response.end('archive');
+      } else if (request.url?.startsWith('/repos/owner/limited/')) {
+        response.writeHead(403);
+        response.end();
+      } else {
+        response.writeHead(404);
+        response.end();
+      }
+    });
+
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+
+    apiUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterAll(async () => {
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  it('should download the archive of a ref', async () => {
+    const archive = await fetchRepositoryArchive({ owner: 'owner', name: 'app', ref: 'feature/x' }, apiUrl);
+
+    expect(await new Response(archive).text()).toBe('archive');
+    expect(requests).toContain('/repos/owner/app/zipball/feature%2Fx');
+  });
+
+  it('should fail with a status for missing repositories and rate limits', async () => {
+    await expect(fetchRepositoryArchive({ owner: 'owner', name: 'missing' }, apiUrl)).rejects.toMatchObject({
+      status: 404,
+      message: 'The repository owner/missing does not exist or is private',
+    });
+
+    await expect(fetchRepositoryArchive({ owner: 'owner', name: 'limited' }, apiUrl)).rejects.toMatchObject({
+      status: 429,
+    });
+  });
+});
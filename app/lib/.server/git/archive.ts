@@ -0,0 +1,50 @@
+import type { GitRepository } from '~/lib/import';
+
+export const GITHUB_API_URL = 'https://api.github.com';
+
+export class RepositoryArchiveError extends Error {
+  constructor(
+    message: string,
+    readonly status: number,
+  ) {
+    super(message);
+    this.name = 'RepositoryArchiveError';
+  }
+}
+
+/**
+ * Fetches the zip archive of a GitHub repository. Fails with a `RepositoryArchiveError` if the repository
+ * can't be downloaded.
+ *
+ * @param apiUrl Base URL of the GitHub API, e.g. to use a local server in tests.
+ */
+export async function fetchRepositoryArchive(repository: GitRepository, apiUrl = GITHUB_API_URL) {
+  const { owner, name, ref } = repository;
+  const refPath = ref ? `/${encodeURIComponent(ref)}` : '';
+
+  const response = await fetch(`${apiUrl}/repos/${owner}/${name}/zipball${refPath}`, {
+    headers: {
+      Accept: 'application/vnd.github+json',
+
+      // requests without a user agent are rejected by GitHub
+      'User-Agent': 'bolt',
+    },
+  });
+
+  if (response.status === 404) {
+    throw new RepositoryArchiveError(
+      `The repository ${owner}/${name}${ref ? ` at ${ref}` : ''} does not exist or is private`,
+      404,
+    );
+  }
+
+  if (response.status === 403 || response.status === 429) {
+    throw new RepositoryArchiveError('GitHub rate limit exceeded, try again later', 429);
+  }
+
+  if (!response.ok || !response.body) {
+    throw new RepositoryArchiveError(`GitHub responded with ${response.status} ${response.statusText}`, 502);
+  }
+
+  return response.body;
+}
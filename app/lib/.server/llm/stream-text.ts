@@ -2,8 +2,10 @@
 // Preventing TS checks with files presented in the video for a better presentation.
 import { streamText as _streamText, convertToCoreMessages } from 'ai';
 import { getModel } from '~/lib/.server/llm/model';
-import { MAX_TOKENS } from './constants';
-import { getSystemPrompt } from './prompts';
+import { MAX_TOKENS, MAX_TOOL_STEPS } from './constants';
+import { FILE_TOOLS_PROMPT, getSystemPrompt, TOOL_CALLING_PROMPT } from './prompts';
+import { actionTools, createFileTools, supportsToolCalling } from './tools';
+import type { ProjectFiles } from '~/types/files';
 import { MODEL_LIST, DEFAULT_MODEL, DEFAULT_PROVIDER, MODEL_REGEX, PROVIDER_REGEX } from '~/utils/constants';
 
 interface ToolResult<Name extends string, Args, Result> {
@@ -24,6 +26,19 @@ export type Messages = Message[];
 
 export type StreamingOptions = Omit<Parameters<typeof _streamText>[0], 'model'>;
 
+export interface ToolOptions {
+  /**
+   * Whether actions are requested as tool calls instead of action tags.
+   */
+  actions?: boolean;
+
+  /**
+   * Files of the project that the model can read with the file tools. They are only used together with
+   * `actions`.
+   */
+  files?: ProjectFiles;
+}
+
 function extractPropertiesFromMessage(message: Message): { model: string; provider: string; content: string } {
   // Extract model
   const modelMatch = message.content.match(MODEL_REGEX);
@@ -46,7 +61,8 @@ export function streamText(
   messages: Messages, 
   env: Env, 
   options?: StreamingOptions,
-  apiKeys?: Record<string, string>
+  apiKeys?: Record<string, string>,
+  toolOptions: ToolOptions = {},
 ) {
   let currentModel = DEFAULT_MODEL;
   let currentProvider = DEFAULT_PROVIDER;
@@ -67,11 +83,28 @@ export function streamText(
     return message; // No changes for non-user messages
   });
 
+  // models without function calling fall back to action tags and only see files through the chat
+  const toolCalling = supportsToolCalling(currentProvider);
+  const useActionTools = toolCalling && !!toolOptions.actions;
+  const useFileTools = useActionTools && !!toolOptions.files;
+
+  const tools = {
+    ...(useActionTools ? actionTools : {}),
+    ...(useFileTools ? createFileTools(toolOptions.files) : {}),
+  };
+
+  const systemPrompt = [
+    getSystemPrompt(),
+    ...(useActionTools ? [TOOL_CALLING_PROMPT] : []),
+    ...(useFileTools ? [FILE_TOOLS_PROMPT] : []),
+  ].join('\n\n');
+
   return _streamText({
     model: getModel(currentProvider, currentModel, env, apiKeys),
-    system: getSystemPrompt(),
+    system: systemPrompt,
     maxTokens: MAX_TOKENS,
     messages: convertToCoreMessages(processedMessages),
     ...options,
+    ...(Object.keys(tools).length > 0 ? { tools, toolChoice: 'auto', maxSteps: MAX_TOOL_STEPS } : {}),
   });
 }
@@ -0,0 +1,24 @@
+import { describe, expect, it } from 'vitest';
+import { createFileTools } from './tools';
+
+describe('createFileTools', () => {
+  const tools = createFileTools({
+    'package.json': '{}',
+    'src/index.js': 'console.log("hi");',
+    'src/utils/math.js': 'export const add = (a, b) => a + b;',
+  });
+
+  it('should read files by paths relative to or inside of the work directory', async () => {
+    expect(await tools.readFile.execute({ filePath: 'src/index.js' })).toBe('console.log("hi");');
+    expect(await tools.readFile.execute({ filePath: './src/index.js' })).toBe('console.log("hi");');
+    expect(await tools.readFile.execute({ filePath: '/home/project/src/index.js' })).toBe('console.log("hi");');
+    expect(await tools.readFile.execute({ filePath: '/home/other/src/index.js' })).toMatch(/^Error:/);
+  });
+
+  it('should list the files of a folder given by an absolute path', async () => {
+    expect(await tools.listFiles.execute({ folder: '/home/project/src/' })).toBe('src/index.js\nsrc/utils/math.js');
+    expect(await tools.listFiles.execute({ folder: '/home/project' })).toBe(
+      'package.json\nsrc/index.js\nsrc/utils/math.js',
+    );
+  });
+});
@@ -0,0 +1,168 @@
+import { tool } from 'ai';
+import * as nodePath from 'node:path';
+import { z } from 'zod';
+import type { ProjectFiles } from '~/types/files';
+import { TOOL_CALLING_PROVIDERS, WORK_DIR } from '~/utils/constants';
+
+// keeps tool results small enough for the context window of the model
+const MAX_FILE_LENGTH = 50_000;
+const MAX_LISTED_FILES = 500;
+const MAX_SEARCH_RESULTS = 100;
+
+// the actions run in the WebContainer of the browser, so the server can only confirm that they were received
+const TOOL_RESULT = 'The action was queued and runs in the WebContainer of the user.';
+
+export function supportsToolCalling(provider: string) {
+  return TOOL_CALLING_PROVIDERS.includes(provider);
+}
+
+/**
+ * Tools for the native tool-calling mode. Each tool call is turned into an action by the client.
+ */
+export const actionTools = {
+  writeFile: tool({
+    description: 'Creates a file or replaces the full content of an existing file.',
+    parameters: z.object({
+      filePath: z.string().describe('Path of the file relative to the current working directory'),
+      content: z.string().describe('Full content of the file'),
+    }),
+    execute: async () => TOOL_RESULT,
+  }),
+  patchFile: tool({
+    description: 'Makes small, targeted changes to an existing file with a unified diff as described in diff_spec.',
+    parameters: z.object({
+      filePath: z.string().describe('Path of the file relative to the current working directory'),
+      diff: z.string().describe('Hunks of the unified diff starting with the first `@@ -X,Y +A,B @@` header'),
+    }),
+    execute: async () => TOOL_RESULT,
+  }),
+  deleteFile: tool({
+    description: 'Deletes a file or a folder including its content.',
+    parameters: z.object({
+      filePath: z.string().describe('Path of the file or folder relative to the current working directory'),
+    }),
+    execute: async () => TOOL_RESULT,
+  }),
+  moveFile: tool({
+    description: 'Moves or renames a file or folder. Missing parent folders of the new path are created.',
+    parameters: z.object({
+      filePath: z.string().describe('Current path relative to the current working directory'),
+      newFilePath: z.string().describe('New path relative to the current working directory'),
+    }),
+    execute: async () => TOOL_RESULT,
+  }),
+  runCommand: tool({
+    description: 'Runs a shell command that terminates, e.g. to install dependencies.',
+    parameters: z.object({
+      command: z.string().describe('The command to run, use `&&` to run multiple commands sequentially'),
+    }),
+    execute: async () => TOOL_RESULT,
+  }),
+  startApplication: tool({
+    description: 'Starts a dev server or another long-running process. Restarts the process if one is running.',
+    parameters: z.object({
+      command: z.string().describe('The command that starts the process, e.g. `npm run dev`'),
+    }),
+    execute: async () => TOOL_RESULT,
+  }),
+};
+
+/**
+ * Tools that let the model read the files of the project before it changes them. They are served from
+ * the files the client sent with the request.
+ */
+export function createFileTools(files: ProjectFiles = {}) {
+  return {
+    readFile: tool({
+      description: 'Returns the current content of a file of the project.',
+      parameters: z.object({
+        filePath: z.string().describe('Path of the file relative to the current working directory'),
+      }),
+      execute: async ({ filePath }) => {
+        const content = files[normalizePath(filePath)];
+
+        if (content === undefined) {
+          return `Error: The file '${filePath}' does not exist or is not a text file.`;
+        }
+
+        if (content.length > MAX_FILE_LENGTH) {
+          return `${content.slice(0, MAX_FILE_LENGTH)}\n\n[The file was truncated after ${MAX_FILE_LENGTH} characters]`;
+        }
+
+        return content;
+      },
+    }),
+    listFiles: tool({
+      description: 'Lists the paths of all text files of the project, optionally limited to a folder.',
+      parameters: z.object({
+        folder: z.string().optional().describe('Folder relative to the current working directory'),
+      }),
+      execute: async ({ folder }) => {
+        const folderPath = folder ? normalizePath(folder) : '';
+        const prefix = folderPath ? `${folderPath}/` : '';
+        const filePaths = Object.keys(files).filter((filePath) => !prefix || filePath.startsWith(prefix));
+
+        if (filePaths.length === 0) {
+          return 'No files found.';
+        }
+
+        return formatResults(filePaths.sort(), MAX_LISTED_FILES);
+      },
+    }),
+    searchFiles: tool({
+      description: 'Searches the text files of the project for a string and returns the matching lines.',
+      parameters: z.object({
+        query: z.string().describe('Text to search for'),
+        isRegex: z.boolean().optional().describe('Whether the query is a JavaScript regular expression'),
+      }),
+      execute: async ({ query, isRegex }) => {
+        let matches: (line: string) => boolean;
+
+        if (isRegex) {
+          try {
+            const regex = new RegExp(query);
+            matches = (line) => regex.test(line);
+          } catch {
+            return `Error: '${query}' is not a valid regular expression.`;
+          }
+        } else {
+          matches = (line) => line.includes(query);
+        }
+
+        const results: string[] = [];
+
+        for (const [filePath, content] of Object.entries(files)) {
+          for (const [index, line] of content.split('\n').entries()) {
+            if (matches(line)) {
+              results.push(`${filePath}:${index + 1}: ${line.trim()}`);
+            }
+          }
+        }
+
+        if (results.length === 0) {
+          return 'No matches found.';
+        }
+
+        return formatResults(results, MAX_SEARCH_RESULTS);
+      },
+    }),
+  };
+}
+
+/**
+ * Converts a path of the model to the keys of the project files, which are relative to the work
+ * directory. Absolute paths inside the work directory are allowed like in file actions.
+ */
+function normalizePath(filePath: string) {
+  return nodePath.relative(WORK_DIR, nodePath.resolve(WORK_DIR, filePath.trim()));
+}
+
+function formatResults(results: string[], limit: number) {
+  const lines = results.slice(0, limit);
+
+  if (results.length > limit) {
+    lines.push(`[${results.length - limit} more results omitted]`);
+  }
+
+  return lines.join('\n');
+}
@@ -2,7 +2,7 @@ const encoder = new TextEncoder();
 const decoder = new TextDecoder();
 const IV_LENGTH = 16;
 
-export async function encrypt(key: string, data: string) {
+export async function encrypt(key: string | CryptoKey, data: string) {
   const iv = crypto.getRandomValues(new Uint8Array(IV_LENGTH));
   const cryptoKey = await getKey(key);
 
@@ -23,7 +23,7 @@ export async function encrypt(key: string, data: string) {
   return decodeBase64(bundle);
 }
 
-export async function decrypt(key: string, payload: string) {
+export async function decrypt(key: string | CryptoKey, payload: string) {
   const bundle = encodeBase64(payload);
 
   const iv = new Uint8Array(bundle.buffer, bundle.byteLength - IV_LENGTH);
@@ -43,7 +43,11 @@ export async function decrypt(key: string, payload: string) {
   return decoder.decode(plaintext);
 }
 
-async function getKey(key: string) {
+async function getKey(key: string | CryptoKey) {
+  if (typeof key !== 'string') {
+    return key;
+  }
+
   return await crypto.subtle.importKey('raw', encodeBase64(key), { name: 'AES-CBC' }, false, ['encrypt', 'decrypt']);
 }
 
@@ -1,5 +1,6 @@
 import type { Message } from 'ai';
 import { useCallback, useState } from 'react';
+import { getActionDefinition } from '~/lib/runtime/action-registry';
 import { StreamingMessageParser } from '~/lib/runtime/message-parser';
 import { workbenchStore } from '~/lib/stores/workbench';
 import { createScopedLogger } from '~/utils/logger';
@@ -22,20 +23,28 @@ const messageParser = new StreamingMessageParser({
     onActionOpen: (data) => {
       logger.trace('onActionOpen', data.action);
 
-      // we only add shell actions when when the close tag got parsed because only then we have the content
-      if (data.action.type !== 'shell') {
+      // other actions are added when the close tag got parsed because only then we have the content
+      if (getActionDefinition(data.action.type)?.addOnOpen) {
         workbenchStore.addAction(data);
       }
     },
+    onActionStream: (data) => {
+      logger.trace('onActionStream', data.action);
+
+      workbenchStore.streamAction(data);
+    },
     onActionClose: (data) => {
       logger.trace('onActionClose', data.action);
 
-      if (data.action.type === 'shell') {
+      if (!getActionDefinition(data.action.type)?.addOnOpen) {
         workbenchStore.addAction(data);
       }
 
       workbenchStore.runAction(data);
     },
+    onParseError: (data) => {
+      logger.warn(`${data.message} (message: ${data.messageId}, action: ${data.actionId})`);
+    },
   },
 });
 
@@ -52,7 +61,12 @@ export function useMessageParser() {
 
     for (const [index, message] of messages.entries()) {
       if (message.role === 'assistant') {
-        const newParsedContent = messageParser.parse(message.id, message.content);
+        // the artifact of the tool calls can only be closed once the message is complete
+        const done = !isLoading || index < messages.length - 1;
+
+        const newParsedContent =
+          messageParser.parse(message.id, message.content) +
+          messageParser.parseToolInvocations(message.id, message.toolInvocations ?? [], done);
 
         setParsedMessages((prevParsed) => ({
           ...prevParsed,
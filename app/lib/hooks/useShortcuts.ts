@@ -1,6 +1,12 @@
 import { useStore } from '@nanostores/react';
 import { useEffect } from 'react';
 import { shortcutsStore, type Shortcuts } from '~/lib/stores/settings';
+import { workbenchStore } from '~/lib/stores/workbench';
+
+// the actions live here instead of the settings so that the settings don't depend on the workbench
+const shortcutActions: Record<keyof Shortcuts, () => void> = {
+  toggleTerminal: () => workbenchStore.toggleTerminal(),
+};
 
 class ShortcutEventEmitter {
   #emitter = new EventTarget();
@@ -43,7 +49,7 @@ export function useShortcuts(): void {
           event.preventDefault();
           event.stopPropagation();
 
-          shortcut.action();
+          shortcutActions[name as keyof Shortcuts]();
 
           break;
         }
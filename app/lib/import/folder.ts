@@ -0,0 +1,109 @@
+import { isIgnored, parseGitignore, type IgnoreRule } from '~/utils/gitignore';
+import {
+  getIgnoreRules,
+  IGNORED_FOLDERS,
+  isImportIgnored,
+  MAX_IMPORTED_FILES,
+  normalizeImportPath,
+  type ImportedFile,
+  type ImportedProject,
+} from './project';
+
+/**
+ * Reads a folder that the user picked with `showDirectoryPicker`. Ignored folders are skipped without
+ * reading them because they may contain a lot of files, e.g. build output.
+ */
+export async function readDirectoryHandle(handle: FileSystemDirectoryHandle): Promise<ImportedProject> {
+  const files: ImportedFile[] = [];
+
+  await readDirectory(handle, '', [], files);
+
+  return { name: handle.name, files };
+}
+
+/**
+ * Reads the files of an `<input type="file" webkitdirectory>` as a fallback for browsers without
+ * `showDirectoryPicker`.
+ */
+export async function readFileList(fileList: FileList): Promise<ImportedProject> {
+  const entries: Array<{ path: string; file: File }> = [];
+
+  let name = 'project';
+
+  for (const file of Array.from(fileList)) {
+    // the relative path starts with the name of the picked folder
+    const [folderName, ...segments] = file.webkitRelativePath.split('/');
+    const path = normalizeImportPath(segments.join('/'));
+
+    name = folderName || name;
+
+    if (path) {
+      entries.push({ path, file });
+    }
+  }
+
+  const rules = getIgnoreRules(
+    await Promise.all(
+      entries
+        .filter(({ path }) => path === '.gitignore' || path.endsWith('/.gitignore'))
+        .map(async ({ path, file }) => ({ path, content: await file.text() })),
+    ),
+  );
+
+  const files: ImportedFile[] = [];
+
+  // only the files that are imported are read
+  for (const { path, file } of entries) {
+    if (!isImportIgnored(rules, path)) {
+      files.push({ path, content: new Uint8Array(await file.arrayBuffer()) });
+    }
+  }
+
+  return { name, files };
+}
+
+async function readDirectory(
+  handle: FileSystemDirectoryHandle,
+  folderPath: string,
+  parentRules: IgnoreRule[],
+  files: ImportedFile[],
+) {
+  const entries: Array<FileSystemDirectoryHandle | FileSystemFileHandle> = [];
+
+  for await (const entry of handle.values()) {
+    entries.push(entry);
+  }
+
+  let rules = parentRules;
+
+  const gitignore = entries.find((entry) => entry.kind === 'file' && entry.name === '.gitignore');
+
+  if (gitignore?.kind === 'file') {
+    const content = await (await gitignore.getFile()).text();
+    rules = [...parentRules, ...parseGitignore(content, folderPath)];
+  }
+
+  for (const entry of entries) {
+    const path = folderPath ? `${folderPath}/${entry.name}` : entry.name;
+
+    if (entry.kind === 'directory') {
+      if (!IGNORED_FOLDERS.includes(entry.name) && !isIgnored(rules, path, true)) {
+        await readDirectory(entry, path, rules, files);
+      }
+
+      continue;
+    }
+
+    if (isIgnored(rules, path, false)) {
+      continue;
+    }
+
+    if (files.length >= MAX_IMPORTED_FILES) {
+      throw new Error(`The project contains more than ${MAX_IMPORTED_FILES} files`);
+    }
+
+    const file = await entry.getFile();
+
+    files.push({ path, content: new Uint8Array(await file.arrayBuffer()) });
+  }
+}
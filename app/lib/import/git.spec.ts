@@ -0,0 +1,57 @@
+import JSZip from 'jszip';
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { parseGitRepositoryUrl, readGitRepository } from './git';
+
+describe('parseGitRepositoryUrl', () => {
+  it('should parse GitHub URLs', () => {
+    expect(parseGitRepositoryUrl('https://github.com/owner/repo')).toEqual({ owner: 'owner', name: 'repo' });
+    expect(parseGitRepositoryUrl('https://github.com/owner/repo.git')).toEqual({ owner: 'owner', name: 'repo' });
+    expect(parseGitRepositoryUrl('git@github.com:owner/repo.git')).toEqual({ owner: 'owner', name: 'repo' });
+    expect(parseGitRepositoryUrl(' github.com/owner/repo/ ')).toEqual({ owner: 'owner', name: 'repo' });
+    expect(parseGitRepositoryUrl('owner/repo')).toEqual({ owner: 'owner', name: 'repo' });
+
+    expect(parseGitRepositoryUrl('https://github.com/owner/repo/tree/feature/x')).toEqual({
+      owner: 'owner',
+      name: 'repo',
+      ref: 'feature/x',
+    });
+  });
+
+  it('should reject other URLs', () => {
+    expect(parseGitRepositoryUrl('https://gitlab.com/owner/repo')).toBeUndefined();
+    expect(parseGitRepositoryUrl('https://github.com/owner')).toBeUndefined();
+    expect(parseGitRepositoryUrl('https://github.com/owner/repo/blob/main/index.js')).toBeUndefined();
+    expect(parseGitRepositoryUrl('owner/repo/extra')).toBeUndefined();
+    expect(parseGitRepositoryUrl('')).toBeUndefined();
+  });
+});
+
+describe('readGitRepository', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('should import the archive of the repository', async () => {
+    const zip = new JSZip();
+
+    zip.file('owner-repo-1a2b3c/package.json', '{}');
+    zip.file('owner-repo-1a2b3c/src/index.js', '');
+
+    const archive = await zip.generateAsync({ type: 'uint8array' });
+    const fetch = vi.fn(async () => new Response(archive));
+
+    vi.stubGlobal('fetch', fetch);
+
+    const project = await readGitRepository('https://github.com/owner/repo');
+
+    expect(fetch).toHaveBeenCalledWith(`/api/git-import?url=${encodeURIComponent('https://github.com/owner/repo')}`);
+    expect(project.name).toBe('repo');
+    expect(project.files.map((file) => file.path).sort()).toEqual(['package.json', 'src/index.js']);
+  });
+
+  it('should fail with the error of the server', async () => {
+    vi.stubGlobal('fetch', async () => new Response('The repository owner/repo does not exist', { status: 404 }));
+
+    await expect(readGitRepository('owner/repo')).rejects.toThrow('The repository owner/repo does not exist');
+  });
+});
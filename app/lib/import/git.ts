@@ -0,0 +1,75 @@
+import type { ImportedProject } from './project';
+import { readZipFile } from './zip';
+
+export interface GitRepository {
+  owner: string;
+  name: string;
+
+  /**
+   * Branch, tag or commit to import, the default branch if not set.
+   */
+  ref?: string;
+}
+
+const NAME_REGEX = /^[\w.-]+$/;
+
+/**
+ * Parses the URL of a GitHub repository, e.g. `https://github.com/owner/repo.git`,
+ * `https://github.com/owner/repo/tree/main`, `git@github.com:owner/repo.git` or `owner/repo`.
+ */
+export function parseGitRepositoryUrl(url: string): GitRepository | undefined {
+  const trimmedUrl = url.trim();
+
+  const path = trimmedUrl
+    .replace(/^git@github\.com:/, '')
+    .replace(/^(?:(?:https?|git):\/\/)?(?:www\.)?github\.com\//, '')
+    .replace(/[?#].*$/, '')
+    .replace(/\/+$/, '');
+
+  // anything else that looks like a URL isn't a GitHub repository
+  if (path === trimmedUrl && (trimmedUrl.includes(':') || trimmedUrl.split('/').length !== 2)) {
+    return undefined;
+  }
+
+  const [owner, repositoryName, type, ...refSegments] = path.split('/');
+  const name = repositoryName?.replace(/\.git$/, '');
+
+  if (!owner || !name || !NAME_REGEX.test(owner) || !NAME_REGEX.test(name)) {
+    return undefined;
+  }
+
+  if (type === undefined) {
+    return { owner, name };
+  }
+
+  if (type === 'tree' && refSegments.length > 0) {
+    return { owner, name, ref: refSegments.map(decodeURIComponent).join('/') };
+  }
+
+  return undefined;
+}
+
+/**
+ * Downloads a repository through the `api.git-import` route, which fetches its archive from GitHub
+ * because the archives can't be fetched from the browser.
+ */
+export async function readGitRepository(url: string): Promise<ImportedProject> {
+  const repository = parseGitRepositoryUrl(url);
+
+  if (!repository) {
+    throw new Error('Only GitHub repositories are supported, e.g. https://github.com/owner/repository');
+  }
+
+  const response = await fetch(`/api/git-import?url=${encodeURIComponent(url.trim())}`);
+
+  if (!response.ok) {
+    throw new Error((await response.text()) || response.statusText);
+  }
+
+  const archive = new File([await response.arrayBuffer()], `${repository.name}.zip`);
+
+  // the archive contains a single folder named after the commit
+  const project = await readZipFile(archive);
+
+  return { ...project, name: repository.name };
+}
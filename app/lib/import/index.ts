@@ -0,0 +1,4 @@
+export * from './folder';
+export * from './project';
+export * from './zip';
+export * from './git';
@@ -0,0 +1,72 @@
+import { describe, expect, it } from 'vitest';
+import { createImportMessages, filterIgnoredFiles, normalizeImportPath, type ImportedFile } from './project';
+
+const encoder = new TextEncoder();
+
+function createFile(path: string, content: string | Uint8Array): ImportedFile {
+  return { path, content: typeof content === 'string' ? encoder.encode(content) : content };
+}
+
+describe('filterIgnoredFiles', () => {
+  it('should remove ignored folders and files ignored by .gitignore', () => {
+    const files = [
+      createFile('.gitignore', 'dist\n*.log\n'),
+      createFile('src/index.js', ''),
+      createFile('src/.gitignore', '!keep.log\n'),
+      createFile('src/keep.log', ''),
+      createFile('debug.log', ''),
+      createFile('dist/index.js', ''),
+      createFile('node_modules/react/index.js', ''),
+      createFile('.git/HEAD', ''),
+    ];
+
+    expect(filterIgnoredFiles(files).map((file) => file.path)).toEqual([
+      '.gitignore',
+      'src/index.js',
+      'src/.gitignore',
+      'src/keep.log',
+    ]);
+  });
+});
+
+describe('normalizeImportPath', () => {
+  it('should reject paths outside of the project', () => {
+    expect(normalizeImportPath('src\\index.js')).toBe('src/index.js');
+    expect(normalizeImportPath('/src/./index.js')).toBe('src/index.js');
+    expect(normalizeImportPath('../index.js')).toBeUndefined();
+    expect(normalizeImportPath('src/../../index.js')).toBeUndefined();
+  });
+});
+
+describe('createImportMessages', () => {
+  it('should describe the structure of the project without the content of its files', () => {
+    const [userMessage, assistantMessage] = createImportMessages(
+      {
+        name: 'My App',
+        files: [
+          createFile('src/index.js', 'console.log("hi");\n'),
+          createFile('src/components/Button.js', ''),
+          createFile('logo.png', new Uint8Array([137, 0, 1])),
+        ],
+      },
+      'Import the project "My App"',
+    );
+
+    expect(userMessage).toMatchObject({ role: 'user', content: 'Import the project "My App"' });
+    expect(assistantMessage.role).toBe('assistant');
+    expect(assistantMessage.content).toContain('```\nsrc/\n  components/\n    ...\n  index.js\nlogo.png\n```');
+    expect(assistantMessage.content).toContain('<boltArtifact id="import-my-app" title="Import My App">');
+    expect(assistantMessage.content).not.toContain('console.log');
+    expect(assistantMessage.content).not.toContain('type="file"');
+    expect(assistantMessage.content).not.toContain('npm install');
+  });
+
+  it('should install the dependencies of projects with a package.json', () => {
+    const [, assistantMessage] = createImportMessages(
+      { name: 'app', files: [createFile('package.json', '{}')] },
+      'Import the project "app"',
+    );
+
+    expect(assistantMessage.content).toContain('<boltAction type="shell">\nnpm install\n</boltAction>');
+  });
+});
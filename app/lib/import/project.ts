@@ -0,0 +1,235 @@
+import type { FileSystemTree } from '@webcontainer/api';
+import type { Message } from 'ai';
+import * as nodePath from 'node:path';
+import { isPathIgnored, parseGitignore, type IgnoreRule } from '~/utils/gitignore';
+
+/**
+ * Folders that are never imported. Dependencies are reinstalled and the history of a repository isn't
+ * part of the project files.
+ */
+export const IGNORED_FOLDERS = ['node_modules', '.git'];
+
+/**
+ * Maximum number of files of an imported project because all files are kept in memory and in the chat.
+ */
+export const MAX_IMPORTED_FILES = 1000;
+
+/**
+ * Depth up to which the structure of an imported project is listed in the chat.
+ */
+const MAX_STRUCTURE_DEPTH = 2;
+
+const utf8TextDecoder = new TextDecoder('utf8', { fatal: true });
+
+export interface ImportedFile {
+  /**
+   * Path relative to the root of the imported project.
+   */
+  path: string;
+  content: Uint8Array;
+}
+
+export interface ImportedProject {
+  name: string;
+  files: ImportedFile[];
+}
+
+/**
+ * Removes files of ignored folders and files that are ignored by the `.gitignore` files of the project.
+ */
+export function filterIgnoredFiles(files: ImportedFile[]) {
+  const rules = getIgnoreRules(
+    files
+      .filter((file) => nodePath.basename(file.path) === '.gitignore')
+      .map((file) => ({ path: file.path, content: decodeText(file.content) ?? '' })),
+  );
+
+  return files.filter((file) => !isImportIgnored(rules, file.path));
+}
+
+/**
+ * Returns the rules of the given `.gitignore` files of a project.
+ */
+export function getIgnoreRules(gitignoreFiles: Array<{ path: string; content: string }>) {
+  const rules: IgnoreRule[] = [];
+
+  // rules of parent folders come first so that nested `.gitignore` files can override them
+  const sortedFiles = [...gitignoreFiles].sort((a, b) => a.path.split('/').length - b.path.split('/').length);
+
+  for (const file of sortedFiles) {
+    const base = nodePath.dirname(file.path);
+    rules.push(...parseGitignore(file.content, base === '.' ? '' : base));
+  }
+
+  return rules;
+}
+
+/**
+ * Checks whether a file isn't imported because it's in an ignored folder or ignored by `.gitignore`.
+ */
+export function isImportIgnored(rules: IgnoreRule[], path: string) {
+  return path.split('/').some((segment) => IGNORED_FOLDERS.includes(segment)) || isPathIgnored(rules, path);
+}
+
+/**
+ * Throws if the project can't be imported.
+ */
+export function validateImportedProject(project: ImportedProject) {
+  if (project.files.length === 0) {
+    throw new Error('The project does not contain any files');
+  }
+
+  if (project.files.length > MAX_IMPORTED_FILES) {
+    throw new Error(`The project contains more than ${MAX_IMPORTED_FILES} files`);
+  }
+}
+
+/**
+ * Creates the messages that a chat of an imported project starts with. The files are mounted into the
+ * WebContainer separately, so the message of the assistant only describes the structure of the project
+ * instead of resending all files to the model with every request. Dependencies are never imported, so
+ * its artifact installs them if the project has a `package.json`.
+ */
+export function createImportMessages(project: ImportedProject, userContent: string): Message[] {
+  const hasPackageJson = project.files.some((file) => file.path === 'package.json');
+  const actions = hasPackageJson ? '<boltAction type="shell">\nnpm install\n</boltAction>' : '';
+
+  const assistantContent = [
+    `I imported the project "${project.name}" with ${project.files.length} files:`,
+    `\`\`\`\n${formatStructure(project.files.map((file) => file.path))}\n\`\`\``,
+    `<boltArtifact id="${getArtifactId(project.name)}" title="${escapeAttribute(`Import ${project.name}`)}">\n${actions}\n</boltArtifact>`,
+  ].join('\n\n');
+
+  return [
+    { id: `import-${Date.now()}-user`, role: 'user', content: userContent },
+    { id: `import-${Date.now()}-assistant`, role: 'assistant', content: assistantContent },
+  ];
+}
+
+/**
+ * Converts the files into a tree that can be mounted into the WebContainer.
+ *
+ * @note Mounting transfers the buffers of the files, so their content can't be used afterwards.
+ */
+export function toFileSystemTree(files: ImportedFile[]) {
+  const tree: FileSystemTree = {};
+
+  for (const file of files) {
+    const segments = file.path.split('/');
+
+    let folder = tree;
+
+    for (const segment of segments.slice(0, -1)) {
+      const node = folder[segment];
+
+      if (node && 'directory' in node) {
+        folder = node.directory;
+      } else {
+        const directory: FileSystemTree = {};
+        folder[segment] = { directory };
+        folder = directory;
+      }
+    }
+
+    folder[segments[segments.length - 1]] = { file: { contents: file.content } };
+  }
+
+  return tree;
+}
+
+/**
+ * Normalizes the path of an imported file and returns `undefined` if it would leave the project.
+ */
+export function normalizeImportPath(path: string) {
+  const normalizedPath = nodePath.normalize(path.replace(/\\/g, '/')).replace(/^\/+/, '');
+
+  if (!normalizedPath || normalizedPath === '.' || normalizedPath === '..' || normalizedPath.startsWith('../')) {
+    return undefined;
+  }
+
+  return normalizedPath;
+}
+
+/**
+ * Formats the files and folders of a project as an indented tree with folders first. The content of
+ * folders deeper than `MAX_STRUCTURE_DEPTH` is collapsed.
+ */
+function formatStructure(paths: string[]) {
+  interface Folder {
+    folders: Map<string, Folder>;
+    files: string[];
+  }
+
+  const root: Folder = { folders: new Map(), files: [] };
+
+  for (const path of paths) {
+    const segments = path.split('/');
+
+    let folder = root;
+
+    for (const segment of segments.slice(0, -1)) {
+      let child = folder.folders.get(segment);
+
+      if (!child) {
+        child = { folders: new Map(), files: [] };
+        folder.folders.set(segment, child);
+      }
+
+      folder = child;
+    }
+
+    folder.files.push(segments[segments.length - 1]);
+  }
+
+  const lines: string[] = [];
+
+  const addLines = (folder: Folder, depth: number) => {
+    const indent = '  '.repeat(depth);
+
+    for (const [name, child] of [...folder.folders].sort(([a], [b]) => a.localeCompare(b))) {
+      lines.push(`${indent}${name}/`);
+
+      if (depth + 1 < MAX_STRUCTURE_DEPTH) {
+        addLines(child, depth + 1);
+      } else {
+        lines.push(`${indent}  ...`);
+      }
+    }
+
+    for (const name of [...folder.files].sort((a, b) => a.localeCompare(b))) {
+      lines.push(`${indent}${name}`);
+    }
+  };
+
+  addLines(root, 0);
+
+  return lines.join('\n');
+}
+
+/**
+ * Returns the content of a text file or `undefined` if the file is binary.
+ */
+function decodeText(content: Uint8Array) {
+  if (content.includes(0)) {
+    return undefined;
+  }
+
+  try {
+    return utf8TextDecoder.decode(content);
+  } catch {
+    return undefined;
+  }
+}
+
+function getArtifactId(projectName: string) {
+  const slug = projectName
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '');
+
+  return `import-${slug || 'project'}`;
+}
+
+function escapeAttribute(value: string) {
+  return value.replace(/&/g, '&amp;').replace(/"/g, '&quot;');
+}
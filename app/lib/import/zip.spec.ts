@@ -0,0 +1,127 @@
+import JSZip from 'jszip';
+import { describe, expect, it } from 'vitest';
+import { getSingleRootFolder, MAX_UNPACKED_SIZE, MAX_ZIP_SIZE, readUncompressedSizes, readZipFile } from './zip';
+
+async function createZipFile(name: string, files: Record<string, string | Uint8Array>) {
+  const zip = new JSZip();
+
+  for (const [path, content] of Object.entries(files)) {
+    zip.file(path, content);
+  }
+
+  return new File([await zip.generateAsync({ type: 'uint8array' })], name);
+}
+
+/**
+ * Changes the uncompressed sizes in the central directory of an archive, which is how an archive that
+ * unpacks to huge files looks without having to create one.
+ */
+async function setUncompressedSizes(file: File, sizes: Record<string, number>) {
+  const data = new Uint8Array(await file.arrayBuffer());
+  const view = new DataView(data.buffer);
+
+  for (let offset = 0; offset < data.byteLength - 46; offset++) {
+    if (view.getUint32(offset, true) === 0x02014b50) {
+      const name = new TextDecoder().decode(
+        data.subarray(offset + 46, offset + 46 + view.getUint16(offset + 28, true)),
+      );
+
+      if (name in sizes) {
+        view.setUint32(offset + 24, sizes[name], true);
+      }
+    }
+  }
+
+  return new File([data], file.name);
+}
+
+describe('readZipFile', () => {
+  it('should flatten a single root folder and keep binary files', async () => {
+    const image = new Uint8Array([0x89, 0x50, 0x4e, 0x47, 0x00, 0xff]);
+
+    const project = await readZipFile(
+      await createZipFile('export.zip', {
+        'my-app/package.json': '{}',
+        'my-app/public/logo.png': image,
+        '__MACOSX/my-app/._package.json': 'metadata',
+      }),
+    );
+
+    expect(project.name).toBe('my-app');
+    expect(project.files.map((file) => file.path).sort()).toEqual(['package.json', 'public/logo.png']);
+    expect(project.files.find((file) => file.path === 'public/logo.png')?.content).toEqual(image);
+  });
+
+  it('should use the name of the archive if there are files at the root', async () => {
+    const project = await readZipFile(
+      await createZipFile('project.zip', {
+        'index.js': '',
+        'src/app.js': '',
+      }),
+    );
+
+    expect(project.name).toBe('project');
+    expect(project.files.map((file) => file.path).sort()).toEqual(['index.js', 'src/app.js']);
+  });
+
+  it('should skip ignored files', async () => {
+    const project = await readZipFile(
+      await createZipFile('project.zip', {
+        '.gitignore': 'dist\n',
+        'index.js': '',
+        'dist/index.js': '',
+        'node_modules/react/index.js': '',
+      }),
+    );
+
+    expect(project.files.map((file) => file.path).sort()).toEqual(['.gitignore', 'index.js']);
+  });
+
+  it('should reject archives that are too large', async () => {
+    const file = new File([new Uint8Array(MAX_ZIP_SIZE + 1)], 'large.zip');
+
+    await expect(readZipFile(file)).rejects.toThrow('The archive is larger than 50 MB');
+  });
+
+  it('should reject archives that unpack to more than the size limit', async () => {
+    const file = await createZipFile('project.zip', { 'index.js': '', 'data.json': '' });
+
+    await expect(readZipFile(await setUncompressedSizes(file, { 'data.json': MAX_UNPACKED_SIZE + 1 }))).rejects.toThrow(
+      'The unpacked project is larger than 200 MB',
+    );
+
+    // the limit applies to all files together
+    await expect(
+      readZipFile(
+        await setUncompressedSizes(file, { 'index.js': MAX_UNPACKED_SIZE / 2, 'data.json': MAX_UNPACKED_SIZE / 2 + 1 }),
+      ),
+    ).rejects.toThrow('The unpacked project is larger than 200 MB');
+  });
+});
+
+describe('readUncompressedSizes', () => {
+  it('should read the sizes of the files from the central directory', async () => {
+    const file = await createZipFile('project.zip', { 'index.js': 'console.log("hi");', 'src/ä.txt': 'abc' });
+
+    expect(readUncompressedSizes(new Uint8Array(await file.arrayBuffer()))).toEqual(
+      new Map([
+        ['index.js', 18],
+        ['src/', 0],
+        ['src/ä.txt', 3],
+      ]),
+    );
+  });
+});
+
+describe('getSingleRootFolder', () => {
+  it('should return the folder that contains all files', () => {
+    expect(getSingleRootFolder(['app/index.js', 'app/src/main.js'])).toBe('app');
+  });
+
+  it('should return undefined if files are in different folders or at the root', () => {
+    expect(getSingleRootFolder(['app/index.js', 'lib/index.js'])).toBeUndefined();
+    expect(getSingleRootFolder(['app/index.js', 'index.js'])).toBeUndefined();
+    expect(getSingleRootFolder(['index.js'])).toBeUndefined();
+    expect(getSingleRootFolder([])).toBeUndefined();
+  });
+});
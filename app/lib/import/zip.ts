@@ -0,0 +1,183 @@
+import JSZip from 'jszip';
+import {
+  getIgnoreRules,
+  isImportIgnored,
+  MAX_IMPORTED_FILES,
+  normalizeImportPath,
+  type ImportedFile,
+  type ImportedProject,
+} from './project';
+
+/**
+ * Maximum size of an archive that can be imported.
+ */
+export const MAX_ZIP_SIZE = 50 * 1024 * 1024;
+
+/**
+ * Maximum size of all unpacked files, which protects against archives that unpack to huge files.
+ */
+export const MAX_UNPACKED_SIZE = 200 * 1024 * 1024;
+
+// folder with metadata that macOS adds to archives
+const MACOS_METADATA_FOLDER = '__MACOSX';
+
+// signatures of the end of central directory record and of the file headers in the central directory
+const END_OF_CENTRAL_DIRECTORY_SIGNATURE = 0x06054b50;
+const CENTRAL_DIRECTORY_HEADER_SIGNATURE = 0x02014b50;
+
+/**
+ * Reads a project from a zip archive, e.g. one that was exported with `downloadZip`. If all files are in
+ * a single folder, the folder becomes the root of the project.
+ */
+export async function readZipFile(file: File): Promise<ImportedProject> {
+  if (file.size > MAX_ZIP_SIZE) {
+    throw new Error(`The archive is larger than ${formatMegabytes(MAX_ZIP_SIZE)}`);
+  }
+
+  const data = new Uint8Array(await file.arrayBuffer());
+  const zip = await JSZip.loadAsync(data);
+  const uncompressedSizes = readUncompressedSizes(data);
+
+  const entries: Array<{ path: string; entry: JSZip.JSZipObject }> = [];
+
+  for (const entry of Object.values(zip.files)) {
+    const path = normalizeImportPath(entry.name);
+
+    if (!entry.dir && path && path.split('/')[0] !== MACOS_METADATA_FOLDER) {
+      entries.push({ path, entry });
+    }
+  }
+
+  const rootFolder = getSingleRootFolder(entries.map(({ path }) => path));
+
+  if (rootFolder) {
+    for (const entry of entries) {
+      entry.path = entry.path.slice(rootFolder.length + 1);
+    }
+  }
+
+  let remainingSize = MAX_UNPACKED_SIZE;
+
+  const unpack = async (entry: JSZip.JSZipObject) => {
+    // checked before unpacking to keep large files out of memory, unpacking fails if the size is wrong
+    if ((uncompressedSizes.get(entry.name) ?? 0) > remainingSize) {
+      throw createUnpackedSizeError();
+    }
+
+    const content = await entry.async('uint8array');
+
+    if (content.byteLength > remainingSize) {
+      throw createUnpackedSizeError();
+    }
+
+    remainingSize -= content.byteLength;
+
+    return content;
+  };
+
+  // `.gitignore` files are unpacked first to know which files are imported
+  const gitignoreContents = new Map<string, Uint8Array>();
+
+  for (const { path, entry } of entries) {
+    if (path === '.gitignore' || path.endsWith('/.gitignore')) {
+      gitignoreContents.set(path, await unpack(entry));
+    }
+  }
+
+  const rules = getIgnoreRules(
+    Array.from(gitignoreContents, ([path, content]) => ({ path, content: new TextDecoder().decode(content) })),
+  );
+
+  const importedEntries = entries.filter(({ path }) => !isImportIgnored(rules, path));
+
+  // checked before unpacking because all files are kept in memory
+  if (importedEntries.length > MAX_IMPORTED_FILES) {
+    throw new Error(`The project contains more than ${MAX_IMPORTED_FILES} files`);
+  }
+
+  const remainingEntries = importedEntries.filter(({ path }) => !gitignoreContents.has(path));
+  const unpackedSize = remainingEntries.reduce((size, { entry }) => size + (uncompressedSizes.get(entry.name) ?? 0), 0);
+
+  if (unpackedSize > remainingSize) {
+    throw createUnpackedSizeError();
+  }
+
+  const files: ImportedFile[] = [];
+
+  for (const { path, entry } of importedEntries) {
+    files.push({ path, content: gitignoreContents.get(path) ?? (await unpack(entry)) });
+  }
+
+  return { name: rootFolder ?? file.name.replace(/\.zip$/i, ''), files };
+}
+
+/**
+ * Returns the folder that contains all files or `undefined` if there are files at the root.
+ */
+export function getSingleRootFolder(paths: string[]) {
+  const [firstPath] = paths;
+
+  if (!firstPath?.includes('/')) {
+    return undefined;
+  }
+
+  const folder = firstPath.split('/')[0];
+
+  return paths.every((path) => path.startsWith(`${folder}/`)) ? folder : undefined;
+}
+
+/**
+ * Reads the uncompressed sizes of the files from the central directory of an archive because JSZip
+ * doesn't expose them. Sizes of files in ZIP64 archives are `Infinity` because only files that exceed
+ * the limits anyway need ZIP64.
+ */
+export function readUncompressedSizes(data: Uint8Array) {
+  const sizes = new Map<string, number>();
+  const view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+  const decoder = new TextDecoder();
+
+  // the record is at the end of the archive, followed by a comment of up to 64 KB
+  let offset = data.byteLength - 22;
+
+  while (offset >= Math.max(0, data.byteLength - 22 - 0xffff)) {
+    if (view.getUint32(offset, true) === END_OF_CENTRAL_DIRECTORY_SIGNATURE) {
+      break;
+    }
+
+    offset--;
+  }
+
+  if (offset < 0 || view.getUint32(offset, true) !== END_OF_CENTRAL_DIRECTORY_SIGNATURE) {
+    return sizes;
+  }
+
+  const entryCount = view.getUint16(offset + 10, true);
+
+  offset = view.getUint32(offset + 16, true);
+
+  for (let i = 0; i < entryCount && offset + 46 <= data.byteLength; i++) {
+    if (view.getUint32(offset, true) !== CENTRAL_DIRECTORY_HEADER_SIGNATURE) {
+      break;
+    }
+
+    const size = view.getUint32(offset + 24, true);
+    const nameLength = view.getUint16(offset + 28, true);
+    const extraLength = view.getUint16(offset + 30, true);
+    const commentLength = view.getUint16(offset + 32, true);
+    const name = decoder.decode(data.subarray(offset + 46, offset + 46 + nameLength));
+
+    sizes.set(name, size === 0xffffffff ? Infinity : size);
+
+    offset += 46 + nameLength + extraLength + commentLength;
+  }
+
+  return sizes;
+}
+
+function createUnpackedSizeError() {
+  return new Error(`The unpacked project is larger than ${formatMegabytes(MAX_UNPACKED_SIZE)}`);
+}
+
+function formatMegabytes(bytes: number) {
+  return `${bytes / 1024 / 1024} MB`;
+}
@@ -1,13 +1,45 @@
 import type { Message } from 'ai';
+import type { ImportedFile } from '~/lib/import';
+import type { FileSnapshot } from '~/lib/runtime/action-runner';
 import { createScopedLogger } from '~/utils/logger';
 import type { ChatHistoryItem } from './useChatHistory';
 
 const logger = createScopedLogger('ChatHistory');
 
+export interface SnapshotItem {
+  id: string;
+  chatId: string;
+  artifactKey: string;
+  files: FileSnapshot;
+}
+
+export interface EnvironmentItem {
+  chatId: string;
+
+  /**
+   * The encrypted `ProjectEnvironment` of the chat.
+   */
+  data: string;
+}
+
+export interface ImportItem {
+  chatId: string;
+
+  /**
+   * Files of the project that the chat was started with, they aren't part of the messages.
+   */
+  files: ImportedFile[];
+}
+
+export interface KeyItem {
+  id: string;
+  key: CryptoKey;
+}
+
 // this is used at the top level and never rejects
 export async function openDatabase(): Promise<IDBDatabase | undefined> {
   return new Promise((resolve) => {
-    const request = indexedDB.open('boltHistory', 1);
+    const request = indexedDB.open('boltHistory', 5);
 
     request.onupgradeneeded = (event: IDBVersionChangeEvent) => {
       const db = (event.target as IDBOpenDBRequest).result;
@@ -17,6 +49,23 @@ export async function openDatabase(): Promise<IDBDatabase | undefined> {
         store.createIndex('id', 'id', { unique: true });
         store.createIndex('urlId', 'urlId', { unique: true });
       }
+
+      if (!db.objectStoreNames.contains('snapshots')) {
+        const store = db.createObjectStore('snapshots', { keyPath: 'id' });
+        store.createIndex('chatId', 'chatId', { unique: false });
+      }
+
+      if (!db.objectStoreNames.contains('environments')) {
+        db.createObjectStore('environments', { keyPath: 'chatId' });
+      }
+
+      if (!db.objectStoreNames.contains('imports')) {
+        db.createObjectStore('imports', { keyPath: 'chatId' });
+      }
+
+      if (!db.objectStoreNames.contains('keys')) {
+        db.createObjectStore('keys', { keyPath: 'id' });
+      }
     };
 
     request.onsuccess = (event: Event) => {
@@ -94,15 +143,143 @@ export async function getMessagesById(db: IDBDatabase, id: string): Promise<Chat
 
 export async function deleteById(db: IDBDatabase, id: string): Promise<void> {
   return new Promise((resolve, reject) => {
-    const transaction = db.transaction('chats', 'readwrite');
+    const transaction = db.transaction(['chats', 'snapshots', 'environments', 'imports'], 'readwrite');
     const store = transaction.objectStore('chats');
-    const request = store.delete(id);
+    const snapshotsIndex = transaction.objectStore('snapshots').index('chatId');
+
+    store.delete(id);
+    transaction.objectStore('environments').delete(id);
+    transaction.objectStore('imports').delete(id);
+
+    const request = snapshotsIndex.openCursor(IDBKeyRange.only(id));
+
+    request.onsuccess = () => {
+      request.result?.delete();
+      request.result?.continue();
+    };
+
+    transaction.oncomplete = () => resolve(undefined);
+    transaction.onerror = () => reject(transaction.error);
+  });
+}
+
+/**
+ * Stores the files changed by an artifact or deletes the snapshot if there are no files.
+ */
+export async function setSnapshot(
+  db: IDBDatabase,
+  chatId: string,
+  artifactKey: string,
+  files: FileSnapshot | undefined,
+): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction('snapshots', 'readwrite');
+    const store = transaction.objectStore('snapshots');
+    const id = `${chatId}/${artifactKey}`;
+
+    const request = files ? store.put({ id, chatId, artifactKey, files } satisfies SnapshotItem) : store.delete(id);
 
-    request.onsuccess = () => resolve(undefined);
+    request.onsuccess = () => resolve();
     request.onerror = () => reject(request.error);
   });
 }
 
+export async function getSnapshots(db: IDBDatabase, chatId: string): Promise<Record<string, FileSnapshot>> {
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction('snapshots', 'readonly');
+    const store = transaction.objectStore('snapshots');
+    const index = store.index('chatId');
+    const request = index.getAll(chatId);
+
+    request.onsuccess = () => {
+      const snapshots: Record<string, FileSnapshot> = {};
+
+      for (const { artifactKey, files } of request.result as SnapshotItem[]) {
+        snapshots[artifactKey] = files;
+      }
+
+      resolve(snapshots);
+    };
+
+    request.onerror = () => reject(request.error);
+  });
+}
+
+/**
+ * Stores the encrypted environment of a chat or deletes it if there is no data.
+ */
+export async function setEnvironment(db: IDBDatabase, chatId: string, data: string | undefined): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction('environments', 'readwrite');
+    const store = transaction.objectStore('environments');
+
+    const request = data ? store.put({ chatId, data } satisfies EnvironmentItem) : store.delete(chatId);
+
+    request.onsuccess = () => resolve();
+    request.onerror = () => reject(request.error);
+  });
+}
+
+export async function getEnvironment(db: IDBDatabase, chatId: string): Promise<string | undefined> {
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction('environments', 'readonly');
+    const store = transaction.objectStore('environments');
+    const request = store.get(chatId);
+
+    request.onsuccess = () => resolve((request.result as EnvironmentItem | undefined)?.data);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+export async function getEnvironments(db: IDBDatabase): Promise<EnvironmentItem[]> {
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction('environments', 'readonly');
+    const store = transaction.objectStore('environments');
+    const request = store.getAll();
+
+    request.onsuccess = () => resolve(request.result as EnvironmentItem[]);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+export async function getCryptoKey(db: IDBDatabase, id: string): Promise<CryptoKey | undefined> {
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction('keys', 'readonly');
+    const store = transaction.objectStore('keys');
+    const request = store.get(id);
+
+    request.onsuccess = () => resolve((request.result as KeyItem | undefined)?.key);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+/**
+ * Stores a key unless there already is one with the same id, e.g. because another tab created it first.
+ *
+ * @returns The stored key.
+ */
+export async function addCryptoKey(db: IDBDatabase, id: string, key: CryptoKey): Promise<CryptoKey> {
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction('keys', 'readwrite');
+    const store = transaction.objectStore('keys');
+    const request = store.get(id);
+
+    request.onsuccess = () => {
+      const existingKey = (request.result as KeyItem | undefined)?.key;
+
+      if (existingKey) {
+        resolve(existingKey);
+        return;
+      }
+
+      store.put({ id, key } satisfies KeyItem);
+    };
+
+    transaction.oncomplete = () => resolve(key);
+    transaction.onerror = () => reject(transaction.error);
+  });
+}
+
 export async function getNextId(db: IDBDatabase): Promise<string> {
   return new Promise((resolve, reject) => {
     const transaction = db.transaction('chats', 'readonly');
@@ -158,3 +335,29 @@ async function getUrlIds(db: IDBDatabase): Promise<string[]> {
     };
   });
 }
+
+/**
+ * Stores the files of the project that a chat was imported from.
+ */
+export async function setImportedFiles(db: IDBDatabase, chatId: string, files: ImportedFile[]): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction('imports', 'readwrite');
+    const store = transaction.objectStore('imports');
+
+    const request = store.put({ chatId, files } satisfies ImportItem);
+
+    request.onsuccess = () => resolve();
+    request.onerror = () => reject(request.error);
+  });
+}
+
+export async function getImportedFiles(db: IDBDatabase, chatId: string): Promise<ImportedFile[] | undefined> {
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction('imports', 'readonly');
+    const store = transaction.objectStore('imports');
+    const request = store.get(chatId);
+
+    request.onsuccess = () => resolve((request.result as ImportItem | undefined)?.files);
+    request.onerror = () => reject(request.error);
+  });
+}
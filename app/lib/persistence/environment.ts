@@ -0,0 +1,94 @@
+import { decrypt, encrypt } from '~/lib/crypto';
+import { EMPTY_ENVIRONMENT } from '~/lib/stores/env';
+import type { ProjectEnvironment } from '~/types/env';
+import { createScopedLogger } from '~/utils/logger';
+import { addCryptoKey, getCryptoKey, getEnvironment, getEnvironments, setEnvironment } from './db';
+
+/**
+ * The environments of chats are encrypted with an AES-256 key of this browser. The key is a
+ * non-extractable `CryptoKey` that is stored in IndexedDB next to the encrypted environments, so its
+ * bytes can't be read by anyone, including scripts of this origin.
+ *
+ * This protects the secrets in copies of the database, e.g. in backups, synced or exported browser
+ * profiles or when reading the files of the database on disk. It does not protect against code that runs
+ * on this origin because it can use the key to decrypt the environments.
+ */
+const ENVIRONMENT_KEY_ID = 'environment';
+
+// earlier versions stored the key in plain text in the local storage
+const kLegacyEnvironmentKey = 'bolt_environment_key';
+
+const logger = createScopedLogger('ChatHistory');
+
+let encryptionKey: Promise<CryptoKey> | undefined;
+
+export async function loadEnvironment(db: IDBDatabase, chatId: string): Promise<ProjectEnvironment> {
+  const data = await getEnvironment(db, chatId);
+
+  if (!data) {
+    return EMPTY_ENVIRONMENT;
+  }
+
+  try {
+    return { ...EMPTY_ENVIRONMENT, ...JSON.parse(await decrypt(await getEncryptionKey(db), data)) };
+  } catch (error) {
+    // e.g. the environment was encrypted with a key that is gone
+    logger.error('Failed to decrypt environment\n\n', error);
+
+    return EMPTY_ENVIRONMENT;
+  }
+}
+
+export async function saveEnvironment(db: IDBDatabase, chatId: string, environment: ProjectEnvironment) {
+  const isEmpty = Object.keys(environment.variables).length === 0 && !environment.writeDotEnv;
+
+  const data = isEmpty ? undefined : await encrypt(await getEncryptionKey(db), JSON.stringify(environment));
+
+  await setEnvironment(db, chatId, data);
+}
+
+function getEncryptionKey(db: IDBDatabase) {
+  encryptionKey ??= loadEncryptionKey(db).catch((error) => {
+    encryptionKey = undefined;
+    throw error;
+  });
+
+  return encryptionKey;
+}
+
+async function loadEncryptionKey(db: IDBDatabase) {
+  const key = await getCryptoKey(db, ENVIRONMENT_KEY_ID);
+
+  if (key) {
+    return key;
+  }
+
+  const newKey = await crypto.subtle.generateKey({ name: 'AES-CBC', length: 256 }, false, ['encrypt', 'decrypt']);
+  const storedKey = await addCryptoKey(db, ENVIRONMENT_KEY_ID, newKey);
+
+  await migrateLegacyEnvironments(db, storedKey);
+
+  return storedKey;
+}
+
+/**
+ * Encrypts the environments that were encrypted with the legacy key again and removes the legacy key.
+ */
+async function migrateLegacyEnvironments(db: IDBDatabase, key: CryptoKey) {
+  const legacyKey = localStorage.getItem(kLegacyEnvironmentKey);
+
+  if (!legacyKey) {
+    return;
+  }
+
+  for (const { chatId, data } of await getEnvironments(db)) {
+    try {
+      await setEnvironment(db, chatId, await encrypt(key, await decrypt(legacyKey, data)));
+    } catch (error) {
+      // the environment was already encrypted with the new key, e.g. by another tab
+      logger.debug(`Skipped migrating the environment of chat ${chatId}\n\n`, error);
+    }
+  }
+
+  localStorage.removeItem(kLegacyEnvironmentKey);
+}
@@ -3,8 +3,20 @@ import { useState, useEffect } from 'react';
 import { atom } from 'nanostores';
 import type { Message } from 'ai';
 import { toast } from 'react-toastify';
+import type { FileSnapshot } from '~/lib/runtime/action-runner';
 import { workbenchStore } from '~/lib/stores/workbench';
-import { getMessages, getNextId, getUrlId, openDatabase, setMessages } from './db';
+import {
+  getImportedFiles,
+  getMessages,
+  getNextId,
+  getSnapshots,
+  getUrlId,
+  openDatabase,
+  setImportedFiles,
+  setMessages,
+  setSnapshot,
+} from './db';
+import { loadEnvironment, saveEnvironment } from './environment';
 
 export interface ChatHistoryItem {
   id: string;
@@ -42,8 +54,19 @@ export function useChatHistory() {
 
     if (mixedId) {
       getMessages(db, mixedId)
-        .then((storedMessages) => {
+        .then(async (storedMessages) => {
           if (storedMessages && storedMessages.messages.length > 0) {
+            // snapshots have to be restored before the artifacts are created when the messages are parsed
+            workbenchStore.snapshots.set(await getSnapshots(db, storedMessages.id));
+            workbenchStore.environment.set(await loadEnvironment(db, storedMessages.id));
+
+            // imported files aren't part of the messages and have to exist before their actions run
+            const importedFiles = await getImportedFiles(db, storedMessages.id);
+
+            if (importedFiles) {
+              await workbenchStore.importFiles(importedFiles);
+            }
+
             setInitialMessages(storedMessages.messages);
             setUrlId(storedMessages.urlId);
             description.set(storedMessages.description);
@@ -60,6 +83,74 @@ export function useChatHistory() {
     }
   }, []);
 
+  useEffect(() => {
+    if (!db) {
+      return undefined;
+    }
+
+    const persistedSnapshots = new Map<string, FileSnapshot>();
+
+    const persistSnapshots = () => {
+      const id = chatId.get();
+
+      if (!id) {
+        // the snapshots are stored once the chat is stored for the first time
+        return;
+      }
+
+      const snapshots = workbenchStore.snapshots.get();
+
+      for (const artifactKey of new Set([...persistedSnapshots.keys(), ...Object.keys(snapshots)])) {
+        const snapshot = snapshots[artifactKey];
+
+        if (persistedSnapshots.get(artifactKey) === snapshot) {
+          continue;
+        }
+
+        if (snapshot) {
+          persistedSnapshots.set(artifactKey, snapshot);
+        } else {
+          persistedSnapshots.delete(artifactKey);
+        }
+
+        setSnapshot(db, id, artifactKey, snapshot).catch((error) => toast.error(error.message));
+      }
+    };
+
+    const unsubscribeSnapshots = workbenchStore.snapshots.listen(persistSnapshots);
+    const unsubscribeChatId = chatId.listen(persistSnapshots);
+
+    return () => {
+      unsubscribeSnapshots();
+      unsubscribeChatId();
+    };
+  }, []);
+
+  useEffect(() => {
+    if (!db) {
+      return undefined;
+    }
+
+    const persistEnvironment = () => {
+      const id = chatId.get();
+
+      if (!id) {
+        // the environment is stored once the chat is stored for the first time
+        return;
+      }
+
+      saveEnvironment(db, id, workbenchStore.environment.get()).catch((error) => toast.error(error.message));
+    };
+
+    const unsubscribeEnvironment = workbenchStore.environment.listen(persistEnvironment);
+    const unsubscribeChatId = chatId.listen(persistEnvironment);
+
+    return () => {
+      unsubscribeEnvironment();
+      unsubscribeChatId();
+    };
+  }, []);
+
   return {
     ready: !mixedId || ready,
     initialMessages,
@@ -84,6 +175,13 @@ export function useChatHistory() {
       if (initialMessages.length === 0 && !chatId.get()) {
         const nextId = await getNextId(db);
 
+        // a chat can only be imported before it's stored for the first time
+        const { importedFiles } = workbenchStore;
+
+        if (importedFiles) {
+          await setImportedFiles(db, nextId, importedFiles);
+        }
+
         chatId.set(nextId);
 
         if (!urlId) {
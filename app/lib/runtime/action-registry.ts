@@ -0,0 +1,157 @@
+import type { WebContainer } from '@webcontainer/api';
+import type { ReactNode } from 'react';
+import type { ActionType, ActionTypeMap, BoltAction } from '~/types/actions';
+import type { RuntimeErrorData } from '~/types/errors';
+import type { ActionState, FileStaging } from './action-runner';
+import { commandActions } from './actions/commands';
+import { fileActions } from './actions/files';
+
+export interface ActionAttribute {
+  name: string;
+
+  /**
+   * Whether the action fails if the attribute is missing from the action tag.
+   */
+  required?: boolean;
+}
+
+/**
+ * Everything an action needs from the runner while it executes.
+ */
+export interface ActionContext {
+  webcontainer: WebContainer;
+  abortSignal: AbortSignal;
+
+  /**
+   * Environment variables of the project for the processes of the action.
+   */
+  env: Record<string, string>;
+
+  /**
+   * Where file changes are staged in review mode or `undefined` if they are written right away.
+   */
+  staging: FileStaging | undefined;
+
+  /**
+   * Appends to the output that is shown below the action.
+   */
+  appendOutput(data: string): void;
+
+  /**
+   * Creates the message of a failed command from its exit code and the last lines of the output.
+   */
+  getCommandError(exitCode: number): string;
+  reportError(error: RuntimeErrorData): void;
+
+  /**
+   * Must be called before a file is changed so that the change can be reverted.
+   */
+  recordOriginalFile(filePath: string): Promise<void>;
+
+  /**
+   * Reads a file including its staged changes in review mode.
+   *
+   * @returns The content of the file or `undefined` if it doesn't exist.
+   */
+  readFile(filePath: string): Promise<string | undefined>;
+}
+
+export interface ActionRenderer<T extends BoltAction = BoltAction> {
+  /**
+   * Describes the action next to its status icon in the artifact.
+   */
+  label(action: ActionState & T): ReactNode;
+
+  /**
+   * Content shown below the label, e.g. the command of a `shell` action.
+   */
+  details?(action: ActionState & T): ReactNode;
+}
+
+export interface ActionDefinition<T extends BoltAction = BoltAction> {
+  type: T['type'];
+
+  /**
+   * Attributes of the action tag besides `type`, e.g. `filePath`.
+   */
+  attributes?: ActionAttribute[];
+
+  /**
+   * Whether the content is the content of a file which always ends with a newline.
+   */
+  fileContent?: boolean;
+
+  /**
+   * Whether the action is added to the artifact as soon as its tag opens, e.g. so that a file is shown in
+   * the editor while it is being generated. Other actions are only added once their content is complete.
+   */
+  addOnOpen?: boolean;
+
+  /**
+   * Whether the content is a command that is checked against the shell policy before it runs.
+   */
+  requiresApproval?: boolean;
+
+  /**
+   * Paths of the files the action writes, deletes or moves as given by the model. The action fails if a
+   * path is outside of the work directory and needs approval if a path is protected.
+   */
+  getFilePaths?(action: T): string[];
+
+  /**
+   * Throws if the action can't be executed, e.g. because an attribute has an invalid value.
+   */
+  validate?(action: T): void;
+  execute(action: T, context: ActionContext): Promise<void>;
+
+  /**
+   * Title of the error that is reported when the action fails.
+   */
+  getErrorTitle?(action: T): string;
+
+  /**
+   * Renders the action in the artifact. Takes precedence over a renderer registered with
+   * `registerActionRenderer`.
+   */
+  renderer?: ActionRenderer<T>;
+}
+
+/**
+ * Definition of any registered action type, narrowed by its `type`.
+ */
+export type AnyActionDefinition = { [K in ActionType]: ActionDefinition<ActionTypeMap[K]> }[ActionType];
+
+const actionDefinitions = new Map<string, AnyActionDefinition>();
+const actionRenderers = new Map<string, ActionRenderer<any>>();
+
+/**
+ * Adds an action type to the parser and the runner or replaces the definition of an existing type.
+ */
+export function registerAction(definition: AnyActionDefinition) {
+  actionDefinitions.set(definition.type, definition);
+}
+
+export function getActionDefinition<K extends ActionType>(type: K) {
+  return actionDefinitions.get(type) as ActionDefinition<ActionTypeMap[K]> | undefined;
+}
+
+/**
+ * Adds the renderer of an action type from the UI, which is how the built-in actions are rendered
+ * without the runtime depending on React components.
+ */
+export function registerActionRenderer<K extends ActionType>(type: K, renderer: ActionRenderer<ActionTypeMap[K]>) {
+  actionRenderers.set(type, renderer);
+}
+
+/**
+ * @returns The renderer of the definition or the registered renderer of the action type, if any.
+ */
+export function getActionRenderer<K extends ActionType>(type: K) {
+  return (getActionDefinition(type)?.renderer ?? actionRenderers.get(type)) as
+    | ActionRenderer<ActionTypeMap[K]>
+    | undefined;
+}
+
+for (const definition of [...fileActions, ...commandActions]) {
+  registerAction(definition);
+}
@@ -1,20 +1,59 @@
-import { WebContainer } from '@webcontainer/api';
-import { map, type MapStore } from 'nanostores';
+import type { WebContainer } from '@webcontainer/api';
+import { atom, map, type MapStore } from 'nanostores';
 import * as nodePath from 'node:path';
 import type { BoltAction } from '~/types/actions';
+import type { RuntimeErrorData } from '~/types/errors';
 import { createScopedLogger } from '~/utils/logger';
+import { withResolvers } from '~/utils/promises';
+import { normalizeOutput, stripEscapeCodes } from '~/utils/terminal';
 import { unreachable } from '~/utils/unreachable';
+import { getActionDefinition, type ActionContext, type ActionDefinition } from './action-registry';
+import { listFiles, validateFilePath } from './file-utils';
 import type { ActionCallbackData } from './message-parser';
+import { isProtectedPath, type PathPolicy } from './path-policy';
+import { evaluateShellPolicy, type ShellPolicy } from './shell-policy';
 
 const logger = createScopedLogger('ActionRunner');
 
-export type ActionStatus = 'pending' | 'running' | 'complete' | 'aborted' | 'failed';
+// we only keep the end of the output of an action which is where errors usually show up
+const MAX_OUTPUT_LENGTH = 20_000;
+
+// number of output lines included in the error of a failed command
+const ERROR_OUTPUT_LINES = 10;
+
+export type ActionStatus = 'pending' | 'running' | 'awaiting-approval' | 'complete' | 'aborted' | 'failed';
 
 export type BaseActionState = BoltAction & {
   status: Exclude<ActionStatus, 'failed'>;
   abort: () => void;
+
+  /**
+   * Approve or skip a command that is awaiting approval.
+   */
+  approve: () => void;
+  skip: () => void;
+
+  /**
+   * Why the action is awaiting approval.
+   */
+  approvalReason?: string;
+
+  /**
+   * Runs a failed or aborted action again.
+   */
+  retry: () => void;
   executed: boolean;
   abortSignal: AbortSignal;
+
+  /**
+   * Output of shell and start actions without terminal escape codes.
+   */
+  output: string;
+
+  /**
+   * Whether the action was aborted before it started executing.
+   */
+  skipped: boolean;
 };
 
 export type FailedActionState = BoltAction &
@@ -25,7 +64,9 @@ export type FailedActionState = BoltAction &
 
 export type ActionState = BaseActionState | FailedActionState;
 
-type BaseActionUpdate = Partial<Pick<BaseActionState, 'status' | 'abort' | 'executed'>>;
+type BaseActionUpdate = Partial<
+  Pick<BaseActionState, 'status' | 'abort' | 'abortSignal' | 'executed' | 'output' | 'skipped' | 'approvalReason'>
+>;
 
 export type ActionStateUpdate =
   | BaseActionUpdate
@@ -33,14 +74,90 @@ export type ActionStateUpdate =
 
 type ActionsMap = MapStore<Record<string, ActionState>>;
 
+export interface ActionRunnerOptions {
+  /**
+   * Called when an action fails or an application started by a `start` action prints an error.
+   */
+  onError?: (error: RuntimeErrorData) => void;
+
+  /**
+   * Returns the policy that decides whether commands of `shell` and `start` actions need approval.
+   */
+  getShellPolicy?: () => ShellPolicy;
+
+  /**
+   * Returns the policy that decides which files actions may only change after the user approved it.
+   */
+  getPathPolicy?: () => PathPolicy;
+
+  /**
+   * Returns the environment variables of the project which are passed to commands.
+   */
+  getEnv?: () => Record<string, string>;
+
+  /**
+   * Removes secrets from the output of commands.
+   */
+  maskSecrets?: (text: string) => string;
+
+  /**
+   * Returns where file changes are staged for review instead of writing them to the WebContainer or
+   * `undefined` if they should be written right away.
+   */
+  getFileStaging?: () => FileStaging | undefined;
+
+  /**
+   * Snapshot of a previous session to restore files from, e.g. after reloading a chat.
+   */
+  snapshot?: FileSnapshot;
+
+  /**
+   * Called when an action starts executing with a promise that settles when it's done and the paths of
+   * the files it changes relative to the work directory, e.g. to tell the changes of actions apart from
+   * the changes of the user. The paths are empty for commands because they can change any file.
+   */
+  onExecute?: (execution: Promise<void>, filePaths: string[]) => void;
+
+  /**
+   * Called when the actions of the runner touched new files or the files were restored.
+   */
+  onSnapshotChange?: (snapshot: FileSnapshot) => void;
+}
+
+/**
+ * Content of files before they were first changed by an action or `null` if the file didn't exist yet,
+ * keyed by their path relative to the work directory.
+ */
+export type FileSnapshot = Record<string, Uint8Array | null>;
+
+export interface FileStaging {
+  /**
+   * Returns the staged content of a file, `null` if its deletion is staged or `undefined` if the file
+   * has no staged changes.
+   */
+  getStagedContent(filePath: string): string | null | undefined;
+  stageFile(filePath: string, content: string | null): void;
+}
+
 export class ActionRunner {
   #webcontainer: Promise<WebContainer>;
+  #options: ActionRunnerOptions;
   #currentExecutionPromise: Promise<void> = Promise.resolve();
+  #executingActionId: string | undefined;
+  #approvals = new Map<string, (approved: boolean) => void>();
+
+  /**
+   * Content of all files before they were first changed by an action of this runner.
+   */
+  #originalFiles: Map<string, Uint8Array | null>;
 
   actions: ActionsMap = map({});
+  rolledBack = atom(false);
 
-  constructor(webcontainerPromise: Promise<WebContainer>) {
+  constructor(webcontainerPromise: Promise<WebContainer>, options: ActionRunnerOptions = {}) {
     this.#webcontainer = webcontainerPromise;
+    this.#options = options;
+    this.#originalFiles = new Map(Object.entries(options.snapshot ?? {}));
   }
 
   addAction(data: ActionCallbackData) {
@@ -54,24 +171,108 @@ export class ActionRunner {
       return;
     }
 
-    const abortController = new AbortController();
+    const { abort, abortSignal } = this.#createAbortController(actionId);
 
     this.actions.setKey(actionId, {
       ...data.action,
       status: 'pending',
       executed: false,
-      abort: () => {
-        abortController.abort();
-        this.#updateAction(actionId, { status: 'aborted' });
+      output: '',
+      skipped: false,
+      abort,
+      approve: () => {
+        this.#approvals.get(actionId)?.(true);
       },
-      abortSignal: abortController.signal,
+      skip: () => {
+        this.#approvals.get(actionId)?.(false);
+      },
+      retry: () => {
+        this.#retryAction(actionId);
+      },
+      abortSignal,
     });
 
     this.#currentExecutionPromise.then(() => {
-      this.#updateAction(actionId, { status: 'running' });
+      if (!abortSignal.aborted) {
+        this.#updateAction(actionId, { status: 'running' });
+      }
     });
   }
 
+  /**
+   * Returns the paths of the files that the actions of this runner changed and that `rollback` restores.
+   */
+  getChangedFiles() {
+    return [...this.#originalFiles.keys()];
+  }
+
+  /**
+   * Runs all actions again in order. Files are restored first so that patches apply to the same
+   * content as before.
+   */
+  async rerunAllActions() {
+    const actions = this.actions.get();
+
+    if (Object.values(actions).some((action) => isActive(action.status))) {
+      return;
+    }
+
+    await this.rollback();
+
+    this.rolledBack.set(false);
+
+    for (const actionId of Object.keys(actions)) {
+      this.#resetAction(actionId);
+      this.#queueAction(actionId);
+    }
+  }
+
+  /**
+   * Aborts all pending and running actions. Running processes are killed and queued actions are
+   * skipped, but files written so far are kept until `rollback` is called.
+   */
+  abortAll() {
+    for (const action of Object.values(this.actions.get())) {
+      if (isActive(action.status)) {
+        action.abort();
+      }
+    }
+  }
+
+  /**
+   * Restores all files changed by the actions of this runner to their content before the first change.
+   */
+  async rollback() {
+    // an aborted action may still be cleaning up, e.g. waiting for its process to exit
+    await this.#currentExecutionPromise;
+
+    const webcontainer = await this.#webcontainer;
+
+    // restore in reverse order so that moved files are removed from their new location first
+    for (const [filePath, content] of [...this.#originalFiles].reverse()) {
+      try {
+        if (content === null) {
+          await webcontainer.fs.rm(filePath, { recursive: true, force: true });
+        } else {
+          const folder = nodePath.dirname(filePath);
+
+          if (folder !== '.') {
+            await webcontainer.fs.mkdir(folder, { recursive: true });
+          }
+
+          await webcontainer.fs.writeFile(filePath, content);
+        }
+      } catch (error) {
+        logger.error(`Failed to restore ${filePath}\n\n`, error);
+      }
+    }
+
+    this.#originalFiles.clear();
+    this.rolledBack.set(true);
+
+    this.#options.onSnapshotChange?.({});
+  }
+
   async runAction(data: ActionCallbackData) {
     const { actionId } = data;
     const action = this.actions.get()[actionId];
@@ -86,6 +287,32 @@ export class ActionRunner {
 
     this.#updateAction(actionId, { ...action, ...data.action, executed: true });
 
+    this.#queueAction(actionId);
+  }
+
+  #retryAction(actionId: string) {
+    const action = this.actions.get()[actionId];
+
+    if (!action || (action.status !== 'failed' && action.status !== 'aborted')) {
+      return;
+    }
+
+    this.#resetAction(actionId);
+    this.#queueAction(actionId);
+  }
+
+  #resetAction(actionId: string) {
+    // the signal of an aborted action can't be reset, so the action needs a new controller
+    this.#updateAction(actionId, {
+      ...this.#createAbortController(actionId),
+      status: 'pending',
+      executed: true,
+      output: '',
+      skipped: false,
+    });
+  }
+
+  #queueAction(actionId: string) {
     this.#currentExecutionPromise = this.#currentExecutionPromise
       .then(() => {
         return this.#executeAction(actionId);
@@ -95,92 +322,277 @@ export class ActionRunner {
       });
   }
 
+  #createAbortController(actionId: string) {
+    const abortController = new AbortController();
+
+    return {
+      abort: () => {
+        abortController.abort();
+        this.#updateAction(actionId, { status: 'aborted', skipped: this.#executingActionId !== actionId });
+      },
+      abortSignal: abortController.signal,
+    };
+  }
+
   async #executeAction(actionId: string) {
     const action = this.actions.get()[actionId];
 
+    if (action.abortSignal.aborted) {
+      logger.debug(`Skipping aborted action ${actionId}`);
+      return;
+    }
+
+    this.#executingActionId = actionId;
     this.#updateAction(actionId, { status: 'running' });
 
+    const definition = getActionDefinition(action.type);
+
     try {
-      switch (action.type) {
-        case 'shell': {
-          await this.#runShellAction(action);
-          break;
-        }
-        case 'file': {
-          await this.#runFileAction(action);
-          break;
-        }
+      if (!definition) {
+        throw new Error(`Unknown action type '${action.type}'`);
       }
 
+      validateAction(definition, action);
+
+      // normalizing the paths throws for paths outside of the work directory
+      const filePaths = (definition.getFilePaths?.(action) ?? []).map((filePath) => validateFilePath(filePath));
+
+      if (!(await this.#approveAction(actionId, action, definition, filePaths))) {
+        this.#updateAction(actionId, { status: 'aborted', skipped: true });
+        return;
+      }
+
+      const execution = definition.execute(action, await this.#createContext(actionId, action));
+
+      this.#options.onExecute?.(execution, filePaths);
+
+      await execution;
+
       this.#updateAction(actionId, { status: action.abortSignal.aborted ? 'aborted' : 'complete' });
     } catch (error) {
-      this.#updateAction(actionId, { status: 'failed', error: 'Action failed' });
+      const message = error instanceof Error ? error.message : 'Action failed';
+
+      this.#updateAction(actionId, { status: 'failed', error: message });
+
+      this.#options.onError?.({
+        source: 'action',
+        title: definition?.getErrorTitle?.(action) ?? `Failed to run ${action.type} action`,
+        details: message,
+      });
 
       // re-throw the error to be caught in the promise chain
       throw error;
+    } finally {
+      this.#executingActionId = undefined;
     }
   }
 
-  async #runShellAction(action: ActionState) {
-    if (action.type !== 'shell') {
-      unreachable('Expected shell action');
+  /**
+   * Checks the files an action changes against the path policy and its command against the shell policy.
+   * Waits for the user if one of the policies asks for approval.
+   *
+   * @param filePaths The normalized paths of the files the action changes.
+   * @returns `false` if the user skipped the action or the action was aborted.
+   * @throws If the shell policy denies the command.
+   */
+  async #approveAction(actionId: string, action: ActionState, definition: ActionDefinition, filePaths: string[]) {
+    const pathPolicy = this.#options.getPathPolicy?.();
+    const protectedPaths = pathPolicy ? await this.#getProtectedPaths(pathPolicy, filePaths) : [];
+
+    if (protectedPaths.length > 0) {
+      const files = protectedPaths.length === 1 ? 'file' : 'files';
+
+      return this.#waitForApproval(
+        actionId,
+        action,
+        `This action changes the protected ${files} ${protectedPaths.join(', ')}`,
+      );
     }
 
+    if (definition.requiresApproval) {
+      return this.#approveCommand(actionId, action);
+    }
+
+    return true;
+  }
+
+  /**
+   * Returns the paths that match the path policy including the files inside of folders, e.g. when an
+   * action deletes or moves a folder that contains a `.env` file.
+   */
+  async #getProtectedPaths(pathPolicy: PathPolicy, filePaths: string[]) {
     const webcontainer = await this.#webcontainer;
+    const protectedPaths = new Set<string>();
 
-    const process = await webcontainer.spawn('jsh', ['-c', action.content], {
-      env: { npm_config_yes: true },
-    });
+    for (const filePath of filePaths) {
+      // `listFiles` returns the path itself for files and paths that don't exist
+      for (const path of new Set([filePath, ...(await listFiles(webcontainer, filePath))])) {
+        if (isProtectedPath(pathPolicy, path)) {
+          protectedPaths.add(path);
+        }
+      }
+    }
+
+    return [...protectedPaths];
+  }
+
+  /**
+   * Checks the command of an action against the shell policy and waits for the user if the policy asks
+   * for approval.
+   *
+   * @returns `false` if the user skipped the command or the action was aborted.
+   * @throws If the policy denies the command.
+   */
+  async #approveCommand(actionId: string, action: ActionState) {
+    const policy = this.#options.getShellPolicy?.();
+
+    if (!policy?.enabled) {
+      return true;
+    }
+
+    const decision = evaluateShellPolicy(policy, action.content);
+
+    if (decision === 'deny') {
+      throw new Error('Command denied by the shell policy');
+    }
+
+    if (decision === 'allow') {
+      return true;
+    }
+
+    return this.#waitForApproval(actionId, action, 'This command needs your approval');
+  }
+
+  /**
+   * @returns Whether the user approved the action.
+   */
+  async #waitForApproval(actionId: string, action: ActionState, reason: string) {
+    const approval = withResolvers<boolean>();
+
+    this.#approvals.set(actionId, approval.resolve);
 
     action.abortSignal.addEventListener('abort', () => {
-      process.kill();
+      approval.resolve(false);
     });
 
-    process.output.pipeTo(
-      new WritableStream({
-        write(data) {
-          console.log(data);
-        },
-      }),
-    );
+    this.#updateAction(actionId, { status: 'awaiting-approval', approvalReason: reason });
 
-    const exitCode = await process.exit;
+    const approved = await approval.promise;
 
-    logger.debug(`Process terminated with code ${exitCode}`);
-  }
+    this.#approvals.delete(actionId);
 
-  async #runFileAction(action: ActionState) {
-    if (action.type !== 'file') {
-      unreachable('Expected file action');
+    if (approved) {
+      this.#updateAction(actionId, { status: 'running' });
     }
 
+    return approved;
+  }
+
+  async #createContext(actionId: string, action: ActionState): Promise<ActionContext> {
     const webcontainer = await this.#webcontainer;
 
-    let folder = nodePath.dirname(action.filePath);
+    return {
+      webcontainer,
+      abortSignal: action.abortSignal,
+      env: this.#options.getEnv?.() ?? {},
+      staging: this.#options.getFileStaging?.(),
+      appendOutput: (data) => this.#appendOutput(actionId, data),
+      getCommandError: (exitCode) => this.#getCommandError(actionId, exitCode),
+      reportError: (error) => this.#options.onError?.(error),
+      recordOriginalFile: (filePath) => this.#recordOriginalFile(webcontainer, filePath),
+      readFile: (filePath) => this.#readFile(webcontainer, filePath),
+    };
+  }
 
-    // remove trailing slashes
-    folder = folder.replace(/\/+$/g, '');
+  async #recordOriginalFile(webcontainer: WebContainer, filePath: string) {
+    let changed = false;
+
+    for (const file of await listFiles(webcontainer, filePath)) {
+      if (this.#originalFiles.has(file)) {
+        continue;
+      }
 
-    if (folder !== '.') {
       try {
-        await webcontainer.fs.mkdir(folder, { recursive: true });
-        logger.debug('Created folder', folder);
-      } catch (error) {
-        logger.error('Failed to create folder\n\n', error);
+        this.#originalFiles.set(file, await webcontainer.fs.readFile(file));
+      } catch {
+        this.#originalFiles.set(file, null);
       }
+
+      changed = true;
+    }
+
+    if (changed) {
+      this.#options.onSnapshotChange?.(Object.fromEntries(this.#originalFiles));
+    }
+  }
+
+  /**
+   * Reads a file including its staged changes in review mode.
+   *
+   * @returns The content of the file or `undefined` if it doesn't exist.
+   */
+  async #readFile(webcontainer: WebContainer, filePath: string) {
+    const stagedContent = this.#options.getFileStaging?.()?.getStagedContent(filePath);
+
+    if (stagedContent !== undefined) {
+      return stagedContent ?? undefined;
     }
 
     try {
-      await webcontainer.fs.writeFile(action.filePath, action.content);
-      logger.debug(`File written ${action.filePath}`);
-    } catch (error) {
-      logger.error('Failed to write file\n\n', error);
+      return await webcontainer.fs.readFile(filePath, 'utf-8');
+    } catch {
+      return undefined;
     }
   }
 
+  #appendOutput(actionId: string, data: string) {
+    const action = this.actions.get()[actionId];
+
+    if (!action) {
+      return;
+    }
+
+    let output = action.output + stripEscapeCodes(data);
+
+    // a secret can be split across chunks, so the whole output is masked again
+    output = (this.#options.maskSecrets?.(output) ?? output).slice(-MAX_OUTPUT_LENGTH);
+
+    this.#updateAction(actionId, { output });
+  }
+
+  #getCommandError(actionId: string, exitCode: number) {
+    const output = this.actions.get()[actionId]?.output ?? '';
+
+    const lastLines = normalizeOutput(output)
+      .split('\n')
+      .filter((line) => line.trim() !== '')
+      .slice(-ERROR_OUTPUT_LINES);
+
+    return [`Command failed with exit code ${exitCode}`, ...lastLines].join('\n');
+  }
+
   #updateAction(id: string, newState: ActionStateUpdate) {
     const actions = this.actions.get();
 
     this.actions.setKey(id, { ...actions[id], ...newState });
   }
 }
+
+function isActive(status: ActionStatus) {
+  return status === 'pending' || status === 'running' || status === 'awaiting-approval';
+}
+
+/**
+ * Checks the attributes of an action against its definition.
+ *
+ * @throws If a required attribute is missing or the definition rejects the action.
+ */
+function validateAction(definition: ActionDefinition, action: BoltAction) {
+  for (const { name, required } of definition.attributes ?? []) {
+    if (required && !(action as unknown as Record<string, string | undefined>)[name]) {
+      throw new Error(`Missing attribute '${name}'`);
+    }
+  }
+
+  definition.validate?.(action);
+}
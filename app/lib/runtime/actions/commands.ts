@@ -0,0 +1,173 @@
+import type { WebContainerProcess } from '@webcontainer/api';
+import type { ActionDefinition, AnyActionDefinition } from '~/lib/runtime/action-registry';
+import type { ShellAction, StartAction } from '~/types/actions';
+import { createScopedLogger } from '~/utils/logger';
+import { withResolvers } from '~/utils/promises';
+import { normalizeOutput, stripEscapeCodes } from '~/utils/terminal';
+
+const logger = createScopedLogger('ActionRunner');
+
+/**
+ * Time after which we consider a `start` action ready even though we didn't see a readiness signal,
+ * so that a server that never opens a port or prints its address can't block the action queue.
+ */
+const START_READY_TIMEOUT = 30_000;
+
+/**
+ * Output of common dev servers once they serve HTTP requests, e.g. `Local: http://localhost:5173/`. Only
+ * HTTP URLs count because other processes like databases print their address as well.
+ */
+const START_READY_REGEX = /\bhttps?:\/\/(?:localhost|127\.0\.0\.1|0\.0\.0\.0|\[::1?\]):\d+|ready in \d/i;
+
+// errors and stack traces printed by a running application, e.g. `TypeError: x is undefined` or vite's overlay errors
+const RUNTIME_ERROR_REGEX = /\b[A-Z]\w*Error:|Internal server error|Failed to compile|\[plugin:[^\]]+\]/;
+
+/**
+ * Time we wait for the rest of a stack trace after detecting an error in the output of a running
+ * application.
+ */
+const RUNTIME_ERROR_DELAY = 500;
+
+/**
+ * The process of the last `start` action. It is shared by all runners so that a `start` action of a
+ * later artifact restarts the server instead of spawning a duplicate.
+ */
+let startProcess: WebContainerProcess | undefined;
+
+const shellAction: ActionDefinition<ShellAction> = {
+  type: 'shell',
+  requiresApproval: true,
+  async execute(action, { webcontainer, abortSignal, env, appendOutput, getCommandError }) {
+    const process = await webcontainer.spawn('jsh', ['-c', action.content], {
+      env: { ...env, npm_config_yes: true },
+    });
+
+    if (abortSignal.aborted) {
+      process.kill();
+    }
+
+    abortSignal.addEventListener('abort', () => {
+      process.kill();
+    });
+
+    process.output.pipeTo(
+      new WritableStream({
+        write: (data) => {
+          appendOutput(data);
+        },
+      }),
+    );
+
+    const exitCode = await process.exit;
+
+    logger.debug(`Process terminated with code ${exitCode}`);
+
+    if (exitCode !== 0 && !abortSignal.aborted) {
+      throw new Error(getCommandError(exitCode));
+    }
+  },
+  getErrorTitle(action) {
+    return `Command failed: \`${action.content.trim()}\``;
+  },
+};
+
+const startAction: ActionDefinition<StartAction> = {
+  type: 'start',
+  requiresApproval: true,
+  async execute(action, { webcontainer, abortSignal, env, appendOutput, getCommandError, reportError }) {
+    if (startProcess) {
+      logger.debug('Restarting application');
+      startProcess.kill();
+      startProcess = undefined;
+    }
+
+    const ready = withResolvers<void>();
+
+    // unlike `port` events, which are emitted for any open port, this is only emitted for HTTP servers
+    const unsubscribeFromServer = webcontainer.on('server-ready', () => {
+      ready.resolve();
+    });
+
+    const process = await webcontainer.spawn('jsh', ['-c', action.content], {
+      env: { ...env, npm_config_yes: true },
+    });
+
+    startProcess = process;
+
+    if (abortSignal.aborted) {
+      process.kill();
+    }
+
+    abortSignal.addEventListener('abort', () => {
+      process.kill();
+    });
+
+    // keep the tail of the output around because the readiness signal may be split across chunks
+    let outputTail = '';
+
+    let errorOutput: string | undefined;
+
+    process.output.pipeTo(
+      new WritableStream({
+        write: (data) => {
+          appendOutput(data);
+
+          const text = stripEscapeCodes(data);
+
+          outputTail = (outputTail + text).slice(-512);
+
+          if (START_READY_REGEX.test(outputTail)) {
+            ready.resolve();
+          }
+
+          if (errorOutput !== undefined) {
+            errorOutput += text;
+          } else if (RUNTIME_ERROR_REGEX.test(text)) {
+            errorOutput = text;
+
+            // stack traces are usually printed in several chunks, so we collect the output for a bit
+            setTimeout(() => {
+              reportError({
+                source: 'terminal',
+                title: `Error in the output of \`${action.content.trim()}\``,
+                details: normalizeOutput(errorOutput ?? ''),
+              });
+
+              errorOutput = undefined;
+            }, RUNTIME_ERROR_DELAY);
+          }
+        },
+      }),
+    );
+
+    process.exit.then(() => {
+      if (startProcess === process) {
+        startProcess = undefined;
+      }
+    });
+
+    const timeoutId = setTimeout(() => {
+      logger.warn(`No readiness signal after ${START_READY_TIMEOUT}ms, continuing with the next action`);
+      ready.resolve();
+    }, START_READY_TIMEOUT);
+
+    // the queue continues as soon as the process is ready, unless it exits before that
+    const exitCode = await Promise.race([ready.promise, process.exit]);
+
+    clearTimeout(timeoutId);
+    unsubscribeFromServer();
+
+    if (typeof exitCode === 'number') {
+      logger.debug(`Process terminated with code ${exitCode}`);
+
+      if (exitCode !== 0 && !abortSignal.aborted) {
+        throw new Error(getCommandError(exitCode));
+      }
+    }
+  },
+  getErrorTitle(action) {
+    return `Command failed: \`${action.content.trim()}\``;
+  },
+};
+
+export const commandActions: AnyActionDefinition[] = [shellAction, startAction];
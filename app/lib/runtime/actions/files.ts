@@ -0,0 +1,172 @@
+import * as nodePath from 'node:path';
+import type { ActionDefinition, AnyActionDefinition } from '~/lib/runtime/action-registry';
+import { listFiles, validateFilePath } from '~/lib/runtime/file-utils';
+import type { DeleteAction, FileAction, MoveAction, PatchAction } from '~/types/actions';
+import { createScopedLogger } from '~/utils/logger';
+import { applyPatch } from '~/utils/patch';
+
+const logger = createScopedLogger('ActionRunner');
+
+const fileAction: ActionDefinition<FileAction> = {
+  type: 'file',
+  attributes: [{ name: 'filePath', required: true }],
+  fileContent: true,
+  addOnOpen: true,
+  getFilePaths(action) {
+    return [action.filePath];
+  },
+  async execute(action, { webcontainer, staging, recordOriginalFile }) {
+    const filePath = validateFilePath(action.filePath);
+
+    if (staging) {
+      staging.stageFile(filePath, action.content);
+      return;
+    }
+
+    let folder = nodePath.dirname(filePath);
+
+    // remove trailing slashes
+    folder = folder.replace(/\/+$/g, '');
+
+    await recordOriginalFile(filePath);
+
+    if (folder !== '.') {
+      try {
+        await webcontainer.fs.mkdir(folder, { recursive: true });
+        logger.debug('Created folder', folder);
+      } catch (error) {
+        logger.error('Failed to create folder\n\n', error);
+      }
+    }
+
+    try {
+      await webcontainer.fs.writeFile(filePath, action.content);
+      logger.debug(`File written ${filePath}`);
+    } catch (error) {
+      logger.error('Failed to write file\n\n', error);
+    }
+  },
+  getErrorTitle(action) {
+    return `Failed to write \`${action.filePath}\``;
+  },
+};
+
+const patchAction: ActionDefinition<PatchAction> = {
+  type: 'patch',
+  attributes: [{ name: 'filePath', required: true }],
+  fileContent: true,
+  addOnOpen: true,
+  getFilePaths(action) {
+    return [action.filePath];
+  },
+  async execute(action, { webcontainer, staging, recordOriginalFile, readFile }) {
+    const filePath = validateFilePath(action.filePath);
+    const content = await readFile(filePath);
+
+    if (content === undefined) {
+      throw new Error(`Cannot patch '${action.filePath}' because the file does not exist`);
+    }
+
+    // throws a `PatchError` with the hunk that failed which is shown in the artifact
+    const patchedContent = applyPatch(content, action.content);
+
+    if (staging) {
+      staging.stageFile(filePath, patchedContent);
+      return;
+    }
+
+    await recordOriginalFile(filePath);
+
+    await webcontainer.fs.writeFile(filePath, patchedContent);
+
+    logger.debug(`File patched ${filePath}`);
+  },
+  getErrorTitle(action) {
+    return `Failed to patch \`${action.filePath}\``;
+  },
+};
+
+const deleteAction: ActionDefinition<DeleteAction> = {
+  type: 'delete',
+  attributes: [{ name: 'filePath', required: true }],
+  addOnOpen: true,
+  getFilePaths(action) {
+    return [action.filePath];
+  },
+  async execute(action, { webcontainer, staging, recordOriginalFile }) {
+    const filePath = validateFilePath(action.filePath);
+
+    if (staging) {
+      staging.stageFile(filePath, null);
+      return;
+    }
+
+    await recordOriginalFile(filePath);
+
+    try {
+      await webcontainer.fs.rm(filePath, { recursive: true });
+    } catch (error) {
+      logger.error('Failed to delete file\n\n', error);
+      throw new Error(`Cannot delete '${action.filePath}' because it does not exist`);
+    }
+
+    logger.debug(`Deleted ${filePath}`);
+  },
+  getErrorTitle(action) {
+    return `Failed to delete \`${action.filePath}\``;
+  },
+};
+
+const moveAction: ActionDefinition<MoveAction> = {
+  type: 'move',
+  attributes: [
+    { name: 'filePath', required: true },
+    { name: 'newFilePath', required: true },
+  ],
+  addOnOpen: true,
+  getFilePaths(action) {
+    return [action.filePath, action.newFilePath];
+  },
+  async execute(action, { webcontainer, staging, recordOriginalFile, readFile }) {
+    const filePath = validateFilePath(action.filePath);
+    const newFilePath = validateFilePath(action.newFilePath);
+
+    if (staging) {
+      for (const file of await listFiles(webcontainer, filePath)) {
+        const content = await readFile(file);
+
+        if (content === undefined) {
+          throw new Error(`Cannot move '${action.filePath}' because it does not exist`);
+        }
+
+        staging.stageFile(nodePath.join(newFilePath, nodePath.relative(filePath, file)), content);
+        staging.stageFile(file, null);
+      }
+
+      return;
+    }
+
+    await recordOriginalFile(filePath);
+    await recordOriginalFile(newFilePath);
+
+    const folder = nodePath.dirname(newFilePath);
+
+    if (folder !== '.') {
+      await webcontainer.fs.mkdir(folder, { recursive: true });
+    }
+
+    try {
+      await webcontainer.fs.rename(filePath, newFilePath);
+    } catch (error) {
+      logger.error('Failed to move file\n\n', error);
+      throw new Error(`Cannot move '${action.filePath}' to '${action.newFilePath}'`);
+    }
+
+    logger.debug(`Moved ${filePath} to ${newFilePath}`);
+  },
+  getErrorTitle(action) {
+    return `Failed to move \`${action.filePath}\` to \`${action.newFilePath}\``;
+  },
+};
+
+export const fileActions: AnyActionDefinition[] = [fileAction, patchAction, deleteAction, moveAction];
@@ -0,0 +1,76 @@
+import type { WebContainer } from '@webcontainer/api';
+import * as nodePath from 'node:path';
+import { WORK_DIR } from '~/utils/constants';
+
+/**
+ * Returns the paths of all files in a folder or the path itself if it isn't a folder.
+ */
+export async function listFiles(webcontainer: WebContainer, filePath: string): Promise<string[]> {
+  let entries;
+
+  try {
+    entries = await webcontainer.fs.readdir(filePath, { withFileTypes: true });
+  } catch {
+    return [filePath];
+  }
+
+  const files: string[] = [];
+
+  for (const entry of entries) {
+    // dependencies can be restored by reinstalling them and would take up a lot of memory
+    if (entry.name !== 'node_modules') {
+      files.push(...(await listFiles(webcontainer, nodePath.join(filePath, entry.name))));
+    }
+  }
+
+  return files;
+}
+
+/**
+ * Normalizes a path given by the model to a path relative to the work directory. Absolute paths inside
+ * the work directory are allowed, but file actions must never leave the work directory or target the
+ * work directory itself.
+ */
+export function validateFilePath(filePath: string | undefined) {
+  if (!filePath) {
+    throw new Error('No file path specified');
+  }
+
+  const relativePath = nodePath.relative(WORK_DIR, nodePath.resolve(WORK_DIR, filePath));
+
+  if (!relativePath) {
+    throw new Error(`Invalid file path '${filePath}'`);
+  }
+
+  if (!isInsideWorkDir(relativePath)) {
+    throw new Error(`File path '${filePath}' is outside of the project`);
+  }
+
+  return relativePath;
+}
+
+/**
+ * Checks whether a path relative to the work directory stays inside of it.
+ */
+export function isInsideWorkDir(relativePath: string) {
+  return relativePath !== '..' && !relativePath.startsWith('../') && !nodePath.isAbsolute(relativePath);
+}
+
+/**
+ * Checks whether a path is the given folder itself or inside of it.
+ */
+export function isPathInFolder(filePath: string, folderPath: string) {
+  return filePath === folderPath || filePath.startsWith(`${folderPath}/`);
+}
+
+/**
+ * Returns the new path of a file after the given file or folder was moved or the path itself if it wasn't
+ * affected.
+ */
+export function getMovedPath(filePath: string, oldPath: string, newPath: string) {
+  if (!isPathInFolder(filePath, oldPath)) {
+    return filePath;
+  }
+
+  return `${newPath}${filePath.slice(oldPath.length)}`;
+}
@@ -1,5 +1,11 @@
 import { describe, expect, it, vi } from 'vitest';
-import { StreamingMessageParser, type ActionCallback, type ArtifactCallback } from './message-parser';
+import {
+  StreamingMessageParser,
+  type ActionCallback,
+  type ArtifactCallback,
+  type ParseErrorCallback,
+  type ParserCallbacks,
+} from './message-parser';
 
 interface ExpectedResult {
   output: string;
@@ -148,10 +154,222 @@ describe('StreamingMessageParser', () => {
           callbacks: { onArtifactOpen: 1, onArtifactClose: 1, onActionOpen: 2, onActionClose: 2 },
         },
       ],
+      [
+        'Before <boltArtifact title="Some title" id="artifact_1"><boltAction type="patch" filePath="index.js">@@ -1,1 +1,1 @@\n-foo\n+bar\n</boltAction></boltArtifact> After',
+        {
+          output: 'Before  After',
+          callbacks: { onArtifactOpen: 1, onArtifactClose: 1, onActionOpen: 1, onActionClose: 1 },
+        },
+      ],
+      [
+        'Before <boltArtifact title="Some title" id="artifact_1"><boltAction type="delete" filePath="old.js" /><boltAction type="move" filePath="a.js" newFilePath="src/a.js"></boltAction></boltArtifact> After',
+        {
+          output: 'Before  After',
+          callbacks: { onArtifactOpen: 1, onArtifactClose: 1, onActionOpen: 2, onActionClose: 2 },
+        },
+      ],
+      [
+        'Before <boltArtifact title="First" id="artifact_1"><boltAction type="shell">npm install</boltAction></boltArtifact> Between <boltArtifact title="Second" id="artifact_2"><boltAction type="file" filePath="index.js">some content</boltAction></boltArtifact> After',
+        {
+          output: 'Before  Between  After',
+          callbacks: { onArtifactOpen: 2, onArtifactClose: 2, onActionOpen: 2, onActionClose: 2 },
+        },
+      ],
     ])('should correctly parse chunks and strip out bolt artifacts (%#)', (input, expected) => {
       runTest(input, expected);
     });
   });
+
+  describe('streaming actions', () => {
+    it('should stream the partial content of file actions', () => {
+      const onActionStream = vi.fn<ActionCallback>();
+      const parser = new StreamingMessageParser({ artifactElement: () => '', callbacks: { onActionStream } });
+
+      const chunks = [
+        '<boltArtifact title="Some title" id="artifact_1"><boltAction type="file" filePath="index.js">\n',
+        'const a',
+        ' = 1;</boltAc',
+        'tion></boltArtifact>',
+      ];
+
+      let message = '';
+
+      for (const chunk of chunks) {
+        message += chunk;
+        parser.parse('message_1', message);
+      }
+
+      expect(onActionStream.mock.calls.map(([data]) => data.action.content)).toEqual(['', 'const a', 'const a = 1;']);
+      expect(onActionStream).toHaveBeenLastCalledWith(
+        expect.objectContaining({ actionId: '0', artifactIndex: 0, action: expect.objectContaining({ type: 'file' }) }),
+      );
+    });
+
+    it('should not stream shell actions', () => {
+      const onActionStream = vi.fn<ActionCallback>();
+      const parser = new StreamingMessageParser({ artifactElement: () => '', callbacks: { onActionStream } });
+
+      parser.parse('message_1', '<boltArtifact title="Some title" id="artifact_1"><boltAction type="shell">npm i');
+
+      expect(onActionStream).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('attributes', () => {
+    it.each<[string, Record<string, string>]>([
+      ["<boltAction type='file' filePath='index.js'>", { type: 'file', filePath: 'index.js' }],
+      ['<boltAction type="file" filepath="index.js">', { type: 'file', filePath: 'index.js' }],
+      ['<boltAction type="file" file_path="index.js">', { type: 'file', filePath: 'index.js' }],
+      ['<boltAction\n  type="file"\n  filePath="a > b.js"\n>', { type: 'file', filePath: 'a > b.js' }],
+      ['<boltAction type="file" filePath="say \\"hi\\".js">', { type: 'file', filePath: 'say "hi".js' }],
+      ['<boltAction type="file" filePath="&lt;id&gt;.js">', { type: 'file', filePath: '<id>.js' }],
+      [
+        '<boltAction type=move filePath=a.js newFilePath=b.js>',
+        { type: 'move', filePath: 'a.js', newFilePath: 'b.js' },
+      ],
+    ])('should parse the attributes of %j', (tag, expected) => {
+      const onActionOpen = vi.fn<ActionCallback>();
+      const parser = new StreamingMessageParser({ artifactElement: () => '', callbacks: { onActionOpen } });
+
+      parser.parse('message_1', `<boltArtifact title='Some title' id='artifact_1'>${tag}</boltAction></boltArtifact>`);
+
+      expect(onActionOpen).toHaveBeenCalledWith(expect.objectContaining({ action: expect.objectContaining(expected) }));
+    });
+  });
+
+  describe('code fences', () => {
+    it('should strip code fences around the content of file actions', () => {
+      const onActionClose = vi.fn<ActionCallback>();
+      const onActionStream = vi.fn<ActionCallback>();
+      const parser = new StreamingMessageParser({
+        artifactElement: () => '',
+        callbacks: { onActionClose, onActionStream },
+      });
+
+      const message =
+        '<boltArtifact title="Some title" id="artifact_1"><boltAction type="file" filePath="index.js">\n```js\nconst a = 1;\n```\n</boltAction></boltArtifact>';
+
+      parser.parse('message_1', message.slice(0, message.indexOf('1;')));
+      parser.parse('message_1', message);
+
+      expect(onActionStream).toHaveBeenCalledWith(
+        expect.objectContaining({ action: expect.objectContaining({ content: 'const a = ' }) }),
+      );
+      expect(onActionClose).toHaveBeenCalledWith(
+        expect.objectContaining({ action: expect.objectContaining({ content: 'const a = 1;\n' }) }),
+      );
+    });
+
+    it('should keep code fences in shell actions', () => {
+      const onActionClose = vi.fn<ActionCallback>();
+      const parser = new StreamingMessageParser({ artifactElement: () => '', callbacks: { onActionClose } });
+
+      parser.parse(
+        'message_1',
+        '<boltArtifact title="Some title" id="artifact_1"><boltAction type="shell">```echo```</boltAction></boltArtifact>',
+      );
+
+      expect(onActionClose).toHaveBeenCalledWith(
+        expect.objectContaining({ action: expect.objectContaining({ content: '```echo```' }) }),
+      );
+    });
+  });
+
+  describe('parse errors', () => {
+    it.each<[string, string]>([
+      ['<boltAction type="file">', "Required attribute 'filePath' missing in file action"],
+      ['<boltAction type="move" filePath="a.js">', "Required attribute 'newFilePath' missing in move action"],
+      ['<boltAction type="unknown">', "Unknown action type 'unknown'"],
+      ['<boltAction>', 'Action type missing'],
+    ])('should report a parse error for %j', (tag, message) => {
+      const onParseError = vi.fn<ParseErrorCallback>();
+      const onActionClose = vi.fn<ActionCallback>();
+      const parser = new StreamingMessageParser({
+        artifactElement: () => '',
+        callbacks: { onParseError, onActionClose },
+      });
+
+      parser.parse('message_1', `<boltArtifact title="Some title" id="artifact_1">${tag}</boltAction></boltArtifact>`);
+
+      expect(onParseError).toHaveBeenCalledWith({
+        messageId: 'message_1',
+        artifactId: 'artifact_1',
+        actionId: '0',
+        message,
+      });
+      expect(onActionClose).toHaveBeenCalledTimes(1);
+    });
+
+    it('should not report parse errors for valid actions', () => {
+      const onParseError = vi.fn<ParseErrorCallback>();
+      const parser = new StreamingMessageParser({ artifactElement: () => '', callbacks: { onParseError } });
+
+      parser.parse(
+        'message_1',
+        '<boltArtifact title="Some title" id="artifact_1"><boltAction type="file" filePath="index.js">foo</boltAction><boltAction type="shell">npm i</boltAction></boltArtifact>',
+      );
+
+      expect(onParseError).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('random chunk boundaries', () => {
+    const messages = [
+      'Before <boltArtifact title="Some title" id="artifact_1"><boltAction type="shell">npm install</boltAction><boltAction type="file" filePath="index.js">some content</boltAction></boltArtifact> After',
+      "Text with <b>html</b> <boltArtifact id='a' title='Quote \\' and > inside'>\n  <boltAction type='file' filepath='src/a > b.ts'>\n```ts\nexport const a = '<div>';\n```\n</boltAction>\n  <boltAction type=\"delete\" filePath=\"old.js\" />\n</boltArtifact>\nDone < or >",
+      'First <boltArtifact title="First" id="artifact_1"><boltAction type="patch" filePath="index.js">@@ -1,1 +1,1 @@\n-foo\n+bar\n</boltAction></boltArtifact> then <boltArtifact title="Second" id="artifact_2"><boltAction type="start">npm run dev</boltAction><boltAction type="move" filePath="a.js" newFilePath="b.js"></boltAction></boltArtifact> end',
+      'Unfinished <boltArtifact title="Some title" id="artifact_1"><boltAction type="file" filePath="index.js">const a = 1;',
+    ];
+
+    it.each(messages.map((message, index) => [index, message] as const))(
+      'should parse message %i the same regardless of how it is split',
+      (_index, message) => {
+        const expected = parseInChunks(message, [message]);
+
+        for (let seed = 1; seed <= 50; seed++) {
+          expect(parseInChunks(message, splitRandomly(message, seed))).toEqual(expected);
+        }
+      },
+    );
+  });
+
+  describe('tool invocations', () => {
+    it('should translate tool calls into actions of a single artifact', () => {
+      const callbacks = {
+        onArtifactOpen: vi.fn<ArtifactCallback>(),
+        onArtifactClose: vi.fn<ArtifactCallback>(),
+        onActionOpen: vi.fn<ActionCallback>(),
+        onActionClose: vi.fn<ActionCallback>(),
+      };
+
+      const parser = new StreamingMessageParser({ artifactElement: () => '[artifact]', callbacks });
+
+      const writeFile = {
+        state: 'call',
+        toolCallId: 'call_1',
+        toolName: 'writeFile',
+        args: { filePath: 'index.js', content: 'console.log(1);' },
+      } as const;
+
+      const runCommand = {
+        state: 'result',
+        toolCallId: 'call_2',
+        toolName: 'runCommand',
+        args: { command: 'node index.js' },
+        result: 'ok',
+      } as const;
+
+      expect(parser.parseToolInvocations('message_1', [writeFile], false)).toBe('[artifact]');
+      expect(parser.parseToolInvocations('message_1', [writeFile, runCommand], true)).toBe('');
+
+      expect(callbacks.onArtifactOpen).toHaveBeenCalledTimes(1);
+      expect(callbacks.onArtifactClose).toHaveBeenCalledTimes(1);
+      expect(callbacks.onActionClose.mock.calls.map(([data]) => [data.actionId, data.action])).toEqual([
+        ['0', { type: 'file', filePath: 'index.js', content: 'console.log(1);\n' }],
+        ['1', { type: 'shell', content: 'node index.js' }],
+      ]);
+    });
+  });
 });
 
 function runTest(input: string | string[], outputOrExpectedResult: string | ExpectedResult) {
@@ -205,3 +423,70 @@ function runTest(input: string | string[], outputOrExpectedResult: string | Expe
 
   expect(result).toEqual(expected.output);
 }
+
+/**
+ * Parses a message that arrives in the given chunks.
+ *
+ * @returns The output and a copy of the data of each callback except `onActionStream`, which depends on
+ * the chunks.
+ */
+function parseInChunks(message: string, chunks: string[]) {
+  const events: unknown[] = [];
+
+  const record = (name: string) => (data: unknown) => {
+    events.push([name, structuredClone(data)]);
+  };
+
+  const callbacks: ParserCallbacks = {
+    onArtifactOpen: record('onArtifactOpen'),
+    onArtifactClose: record('onArtifactClose'),
+    onActionOpen: record('onActionOpen'),
+    onActionClose: record('onActionClose'),
+    onParseError: record('onParseError'),
+  };
+
+  const parser = new StreamingMessageParser({ artifactElement: () => '[artifact]', callbacks });
+
+  let current = '';
+  let output = '';
+
+  for (const chunk of chunks) {
+    current += chunk;
+    output += parser.parse('message_1', current);
+  }
+
+  expect(current).toBe(message);
+
+  return { output, events };
+}
+
+function splitRandomly(message: string, seed: number) {
+  const random = mulberry32(seed);
+  const chunks: string[] = [];
+
+  let i = 0;
+
+  while (i < message.length) {
+    const length = 1 + Math.floor(random() * 12);
+
+    chunks.push(message.slice(i, i + length));
+    i += length;
+  }
+
+  return chunks;
+}
+
+// small seeded PRNG so that failures can be reproduced
+function mulberry32(seed: number) {
+  let state = seed;
+
+  return () => {
+    state = (state + 0x6d2b79f5) | 0;
+
+    let t = Math.imul(state ^ (state >>> 15), 1 | state);
+
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
@@ -1,7 +1,17 @@
-import type { ActionType, BoltAction, BoltActionData, FileAction, ShellAction } from '~/types/actions';
+import type { ToolInvocation } from 'ai';
+import type { ActionType, BoltAction, BoltActionData } from '~/types/actions';
 import type { BoltArtifactData } from '~/types/artifact';
 import { createScopedLogger } from '~/utils/logger';
 import { unreachable } from '~/utils/unreachable';
+import { getActionDefinition } from './action-registry';
+import {
+  findTagEnd,
+  normalizeAttributeName,
+  parseTagAttributes,
+  stripCodeFences,
+  stripOpeningCodeFence,
+} from './parser-utils';
+import { toolCallToAction } from './tool-calls';
 
 const ARTIFACT_TAG_OPEN = '<boltArtifact';
 const ARTIFACT_TAG_CLOSE = '</boltArtifact>';
@@ -12,27 +22,53 @@ const logger = createScopedLogger('MessageParser');
 
 export interface ArtifactCallbackData extends BoltArtifactData {
   messageId: string;
+
+  /**
+   * Position of the artifact within its message since a message can contain multiple artifacts.
+   */
+  artifactIndex: number;
 }
 
 export interface ActionCallbackData {
   artifactId: string;
   messageId: string;
+  artifactIndex: number;
   actionId: string;
   action: BoltAction;
 }
 
+export interface ParseErrorData {
+  messageId: string;
+  artifactId: string;
+  actionId: string;
+  message: string;
+}
+
 export type ArtifactCallback = (data: ArtifactCallbackData) => void;
 export type ActionCallback = (data: ActionCallbackData) => void;
+export type ParseErrorCallback = (data: ParseErrorData) => void;
 
 export interface ParserCallbacks {
   onArtifactOpen?: ArtifactCallback;
   onArtifactClose?: ArtifactCallback;
   onActionOpen?: ActionCallback;
   onActionClose?: ActionCallback;
+
+  /**
+   * Called with the partial content of a file action while it is still being streamed.
+   */
+  onActionStream?: ActionCallback;
+
+  /**
+   * Called when an action tag can't be turned into a valid action, e.g. because a required attribute is
+   * missing. The action is still emitted and fails when it runs.
+   */
+  onParseError?: ParseErrorCallback;
 }
 
 interface ElementFactoryProps {
   messageId: string;
+  artifactIndex: number;
 }
 
 type ElementFactory = (props: ElementFactoryProps) => string;
@@ -49,6 +85,14 @@ interface MessageState {
   currentArtifact?: BoltArtifactData;
   currentAction: BoltActionData;
   actionId: number;
+  artifactCounter: number;
+
+  /**
+   * Index of the artifact that holds the tool calls of the message in tool-calling mode.
+   */
+  toolArtifactIndex?: number;
+  toolArtifactClosed: boolean;
+  toolCallIds: Set<string>;
 }
 
 export class StreamingMessageParser {
@@ -57,19 +101,7 @@ export class StreamingMessageParser {
   constructor(private _options: StreamingMessageParserOptions = {}) {}
 
   parse(messageId: string, input: string) {
-    let state = this.#messages.get(messageId);
-
-    if (!state) {
-      state = {
-        position: 0,
-        insideAction: false,
-        insideArtifact: false,
-        currentAction: { content: '' },
-        actionId: 0,
-      };
-
-      this.#messages.set(messageId, state);
-    }
+    const state = this.#getState(messageId);
 
     let output = '';
     let i = state.position;
@@ -83,6 +115,9 @@ export class StreamingMessageParser {
           unreachable('Artifact not initialized');
         }
 
+        // the counter has been incremented already when the artifact was opened
+        const artifactIndex = state.artifactCounter - 1;
+
         if (state.insideAction) {
           const closeIndex = input.indexOf(ARTIFACT_ACTION_TAG_CLOSE, i);
 
@@ -93,8 +128,8 @@ export class StreamingMessageParser {
 
             let content = currentAction.content.trim();
 
-            if ('type' in currentAction && currentAction.type === 'file') {
-              content += '\n';
+            if ('type' in currentAction && getActionDefinition(currentAction.type)?.fileContent) {
+              content = `${stripCodeFences(content).trimEnd()}\n`;
             }
 
             currentAction.content = content;
@@ -102,6 +137,7 @@ export class StreamingMessageParser {
             this._options.callbacks?.onActionClose?.({
               artifactId: currentArtifact.id,
               messageId,
+              artifactIndex,
 
               /**
                * We decrement the id because it's been incremented already
@@ -118,6 +154,21 @@ export class StreamingMessageParser {
 
             i = closeIndex + ARTIFACT_ACTION_TAG_CLOSE.length;
           } else {
+            if ('type' in currentAction && currentAction.type === 'file') {
+              this._options.callbacks?.onActionStream?.({
+                artifactId: currentArtifact.id,
+                messageId,
+                artifactIndex,
+                actionId: String(state.actionId - 1),
+                action: {
+                  ...currentAction,
+                  content: stripOpeningCodeFence(
+                    stripPartialTag(input.slice(i), ARTIFACT_ACTION_TAG_CLOSE).trimStart(),
+                  ),
+                } as BoltAction,
+              });
+            }
+
             break;
           }
         } else {
@@ -125,26 +176,52 @@ export class StreamingMessageParser {
           const artifactCloseIndex = input.indexOf(ARTIFACT_TAG_CLOSE, i);
 
           if (actionOpenIndex !== -1 && (artifactCloseIndex === -1 || actionOpenIndex < artifactCloseIndex)) {
-            const actionEndIndex = input.indexOf('>', actionOpenIndex);
+            const actionEndIndex = findTagEnd(input, actionOpenIndex);
 
             if (actionEndIndex !== -1) {
               state.insideAction = true;
 
               state.currentAction = this.#parseActionTag(input, actionOpenIndex, actionEndIndex);
 
+              const actionId = String(state.actionId++);
+
+              for (const message of getActionParseErrors(state.currentAction)) {
+                this._options.callbacks?.onParseError?.({
+                  messageId,
+                  artifactId: currentArtifact.id,
+                  actionId,
+                  message,
+                });
+              }
+
               this._options.callbacks?.onActionOpen?.({
                 artifactId: currentArtifact.id,
                 messageId,
-                actionId: String(state.actionId++),
+                artifactIndex,
+                actionId,
                 action: state.currentAction as BoltAction,
               });
 
+              // actions without content like `delete` may use a self-closing tag
+              if (input[actionEndIndex - 1] === '/') {
+                this._options.callbacks?.onActionClose?.({
+                  artifactId: currentArtifact.id,
+                  messageId,
+                  artifactIndex,
+                  actionId,
+                  action: state.currentAction as BoltAction,
+                });
+
+                state.insideAction = false;
+                state.currentAction = { content: '' };
+              }
+
               i = actionEndIndex + 1;
             } else {
               break;
             }
           } else if (artifactCloseIndex !== -1) {
-            this._options.callbacks?.onArtifactClose?.({ messageId, ...currentArtifact });
+            this._options.callbacks?.onArtifactClose?.({ messageId, artifactIndex, ...currentArtifact });
 
             state.insideArtifact = false;
             state.currentArtifact = undefined;
@@ -164,19 +241,19 @@ export class StreamingMessageParser {
           if (potentialTag === ARTIFACT_TAG_OPEN) {
             const nextChar = input[j + 1];
 
-            if (nextChar && nextChar !== '>' && nextChar !== ' ') {
+            if (nextChar && nextChar !== '>' && !/\s/.test(nextChar)) {
               output += input.slice(i, j + 1);
               i = j + 1;
               break;
             }
 
-            const openTagEnd = input.indexOf('>', j);
+            const openTagEnd = findTagEnd(input, j);
 
             if (openTagEnd !== -1) {
-              const artifactTag = input.slice(i, openTagEnd + 1);
+              const artifactAttributes = parseTagAttributes(input.slice(i, openTagEnd + 1));
 
-              const artifactTitle = this.#extractAttribute(artifactTag, 'title') as string;
-              const artifactId = this.#extractAttribute(artifactTag, 'id') as string;
+              const artifactTitle = artifactAttributes.get('title') as string;
+              const artifactId = artifactAttributes.get('id') as string;
 
               if (!artifactTitle) {
                 logger.warn('Artifact title missing');
@@ -195,11 +272,13 @@ export class StreamingMessageParser {
 
               state.currentArtifact = currentArtifact;
 
-              this._options.callbacks?.onArtifactOpen?.({ messageId, ...currentArtifact });
+              const artifactIndex = state.artifactCounter++;
+
+              this._options.callbacks?.onArtifactOpen?.({ messageId, artifactIndex, ...currentArtifact });
 
               const artifactFactory = this._options.artifactElement ?? createArtifactElement;
 
-              output += artifactFactory({ messageId });
+              output += artifactFactory({ messageId, artifactIndex });
 
               i = openTagEnd + 1;
             } else {
@@ -234,39 +313,129 @@ export class StreamingMessageParser {
     return output;
   }
 
+  /**
+   * Emits the same callbacks for the tool calls of a message in tool-calling mode as for action tags. All
+   * tool calls of a message are added to a single artifact.
+   *
+   * @param done Whether the message is complete, which closes the artifact.
+   * @returns The artifact element when the artifact is opened or an empty string otherwise.
+   */
+  parseToolInvocations(messageId: string, toolInvocations: ToolInvocation[], done: boolean) {
+    const state = this.#getState(messageId);
+    const artifact = { id: `tool-calls-${messageId}`, title: 'Actions' } satisfies BoltArtifactData;
+
+    let output = '';
+
+    for (const invocation of toolInvocations) {
+      // the arguments of partial calls are still being streamed
+      if (invocation.state === 'partial-call' || state.toolCallIds.has(invocation.toolCallId)) {
+        continue;
+      }
+
+      state.toolCallIds.add(invocation.toolCallId);
+
+      const action = toolCallToAction(invocation.toolName, invocation.args);
+
+      // tools that only read files don't create actions
+      if (!action) {
+        continue;
+      }
+
+      if (state.toolArtifactIndex === undefined) {
+        state.toolArtifactIndex = state.artifactCounter++;
+
+        this._options.callbacks?.onArtifactOpen?.({ messageId, artifactIndex: state.toolArtifactIndex, ...artifact });
+
+        const artifactFactory = this._options.artifactElement ?? createArtifactElement;
+
+        output += artifactFactory({ messageId, artifactIndex: state.toolArtifactIndex });
+      }
+
+      const actionData = {
+        artifactId: artifact.id,
+        messageId,
+        artifactIndex: state.toolArtifactIndex,
+        actionId: String(state.actionId++),
+        action,
+      };
+
+      this._options.callbacks?.onActionOpen?.(actionData);
+      this._options.callbacks?.onActionClose?.(actionData);
+    }
+
+    if (done && state.toolArtifactIndex !== undefined && !state.toolArtifactClosed) {
+      state.toolArtifactClosed = true;
+
+      this._options.callbacks?.onArtifactClose?.({ messageId, artifactIndex: state.toolArtifactIndex, ...artifact });
+    }
+
+    return output;
+  }
+
   reset() {
     this.#messages.clear();
   }
 
+  #getState(messageId: string) {
+    let state = this.#messages.get(messageId);
+
+    if (!state) {
+      state = {
+        position: 0,
+        insideAction: false,
+        insideArtifact: false,
+        currentAction: { content: '' },
+        actionId: 0,
+        artifactCounter: 0,
+        toolArtifactClosed: false,
+        toolCallIds: new Set(),
+      };
+
+      this.#messages.set(messageId, state);
+    }
+
+    return state;
+  }
+
   #parseActionTag(input: string, actionOpenIndex: number, actionEndIndex: number) {
-    const actionTag = input.slice(actionOpenIndex, actionEndIndex + 1);
+    const attributes = parseTagAttributes(input.slice(actionOpenIndex, actionEndIndex + 1));
 
-    const actionType = this.#extractAttribute(actionTag, 'type') as ActionType;
+    const actionType = attributes.get('type') as ActionType;
 
-    const actionAttributes = {
+    const actionAttributes: Record<string, string | undefined> = {
       type: actionType,
       content: '',
     };
 
-    if (actionType === 'file') {
-      const filePath = this.#extractAttribute(actionTag, 'filePath') as string;
+    for (const { name } of getActionDefinition(actionType)?.attributes ?? []) {
+      actionAttributes[name] = attributes.get(normalizeAttributeName(name));
+    }
 
-      if (!filePath) {
-        logger.debug('File path not specified');
-      }
+    return actionAttributes as unknown as BoltAction;
+  }
+}
 
-      (actionAttributes as FileAction).filePath = filePath;
-    } else if (actionType !== 'shell') {
-      logger.warn(`Unknown action type '${actionType}'`);
-    }
+/**
+ * Checks a parsed action tag against the definition of its type.
+ *
+ * @returns A message for each problem of the action.
+ */
+function getActionParseErrors(action: BoltActionData) {
+  const type = 'type' in action ? action.type : undefined;
 
-    return actionAttributes as FileAction | ShellAction;
+  if (!type) {
+    return ['Action type missing'];
   }
 
-  #extractAttribute(tag: string, attributeName: string): string | undefined {
-    const match = tag.match(new RegExp(`${attributeName}="([^"]*)"`, 'i'));
-    return match ? match[1] : undefined;
+  const definition = getActionDefinition(type);
+
+  if (!definition) {
+    return [`Unknown action type '${type}'`];
   }
+
+  return (definition.attributes ?? [])
+    .filter(({ name, required }) => required && !(action as unknown as Record<string, string | undefined>)[name])
+    .map(({ name }) => `Required attribute '${name}' missing in ${type} action`);
 }
 
 const createArtifactElement: ElementFactory = (props) => {
@@ -280,6 +449,20 @@ const createArtifactElement: ElementFactory = (props) => {
   return `<div ${elementProps.join(' ')}></div>`;
 };
 
+/**
+ * Removes the beginning of the given tag from the end of the input, e.g. `</boltAc` if the close tag
+ * has only been streamed partially.
+ */
+function stripPartialTag(input: string, tag: string) {
+  for (let length = Math.min(input.length, tag.length - 1); length > 0; length--) {
+    if (input.endsWith(tag.slice(0, length))) {
+      return input.slice(0, -length);
+    }
+  }
+
+  return input;
+}
+
 function camelToDashCase(input: string) {
   return input.replace(/([a-z])([A-Z])/g, '$1-$2').toLowerCase();
 }
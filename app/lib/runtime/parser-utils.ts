@@ -0,0 +1,146 @@
+const HTML_ENTITIES: Record<string, string> = {
+  '&quot;': '"',
+  '&apos;': "'",
+  '&#39;': "'",
+  '&lt;': '<',
+  '&gt;': '>',
+  '&amp;': '&',
+};
+
+/**
+ * Attributes of a tag keyed by their normalized name, see `normalizeAttributeName`.
+ */
+export type TagAttributes = Map<string, string>;
+
+/**
+ * Returns the index of the `>` that closes the tag starting at the given index. A `>` inside a quoted
+ * attribute value doesn't close the tag.
+ *
+ * @returns The index or `-1` if the tag isn't complete yet.
+ */
+export function findTagEnd(input: string, tagStart: number) {
+  let quote: string | undefined;
+
+  for (let i = tagStart; i < input.length; i++) {
+    const char = input[i];
+
+    if (quote) {
+      if (char === '\\') {
+        i++;
+      } else if (char === quote || char === '\n') {
+        // attribute values never span lines, so a line break ends a quote that was never closed
+        quote = undefined;
+      }
+    } else if (char === '"' || char === "'") {
+      quote = char;
+    } else if (char === '>') {
+      return i;
+    }
+  }
+
+  return -1;
+}
+
+/**
+ * Parses the attributes of a complete tag like `<boltAction type="file" filePath='index.js'>`. Values
+ * can be double-quoted, single-quoted or unquoted and may contain escaped quotes or HTML entities.
+ */
+export function parseTagAttributes(tag: string): TagAttributes {
+  const attributes: TagAttributes = new Map();
+
+  // skip the tag name
+  let i = tag.search(/[\s/>]/);
+
+  if (i === -1) {
+    return attributes;
+  }
+
+  while (i < tag.length) {
+    while (i < tag.length && /[\s/]/.test(tag[i])) {
+      i++;
+    }
+
+    if (i >= tag.length || tag[i] === '>') {
+      break;
+    }
+
+    const nameStart = i;
+
+    while (i < tag.length && !/[\s=/>]/.test(tag[i])) {
+      i++;
+    }
+
+    const name = tag.slice(nameStart, i);
+
+    while (i < tag.length && /\s/.test(tag[i])) {
+      i++;
+    }
+
+    if (tag[i] !== '=') {
+      // attribute without a value like `disabled`
+      attributes.set(normalizeAttributeName(name), '');
+      continue;
+    }
+
+    i++;
+
+    while (i < tag.length && /\s/.test(tag[i])) {
+      i++;
+    }
+
+    let value = '';
+    const quote = tag[i];
+
+    if (quote === '"' || quote === "'") {
+      i++;
+
+      while (i < tag.length && tag[i] !== quote && tag[i] !== '\n') {
+        if (tag[i] === '\\' && (tag[i + 1] === quote || tag[i + 1] === '\\')) {
+          i++;
+        }
+
+        value += tag[i];
+        i++;
+      }
+
+      i++;
+    } else {
+      while (i < tag.length && !/[\s>]/.test(tag[i]) && !tag.startsWith('/>', i)) {
+        value += tag[i];
+        i++;
+      }
+    }
+
+    attributes.set(normalizeAttributeName(name), decodeEntities(value));
+  }
+
+  return attributes;
+}
+
+/**
+ * Normalizes attribute names so that `filePath`, `filepath` and `file_path` are the same attribute.
+ */
+export function normalizeAttributeName(name: string) {
+  return name.toLowerCase().replace(/[-_]/g, '');
+}
+
+/**
+ * Removes a markdown code fence that some models wrap around the content of a file, e.g.
+ * ```` ```tsx ... ``` ````.
+ */
+export function stripCodeFences(content: string) {
+  const match = content.trim().match(/^```[^\n`]*\n([\s\S]*?)\n?```$/);
+
+  return match ? match[1] : content;
+}
+
+/**
+ * Removes the opening code fence from the content of a file that is still being streamed.
+ */
+export function stripOpeningCodeFence(content: string) {
+  return content.replace(/^```[^\n`]*\n/, '');
+}
+
+function decodeEntities(value: string) {
+  return value.replace(/&(?:quot|apos|#39|lt|gt|amp);/g, (entity) => HTML_ENTITIES[entity]);
+}
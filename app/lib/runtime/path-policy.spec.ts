@@ -0,0 +1,61 @@
+import { describe, expect, it } from 'vitest';
+import { getMovedPath, validateFilePath } from './file-utils';
+import { DEFAULT_PATH_POLICY, isProtectedPath } from './path-policy';
+
+describe('isProtectedPath', () => {
+  it('should match file names in any folder', () => {
+    expect(isProtectedPath(DEFAULT_PATH_POLICY, '.env')).toBe(true);
+    expect(isProtectedPath(DEFAULT_PATH_POLICY, 'server/.env.local')).toBe(true);
+    expect(isProtectedPath(DEFAULT_PATH_POLICY, 'packages/app/package-lock.json')).toBe(true);
+    expect(isProtectedPath(DEFAULT_PATH_POLICY, 'src/env.ts')).toBe(false);
+    expect(isProtectedPath(DEFAULT_PATH_POLICY, 'package.json')).toBe(false);
+  });
+
+  it('should match patterns with folders from the work directory', () => {
+    const policy = { protectedPaths: ['src/*.config.ts', 'config/**'] };
+
+    expect(isProtectedPath(policy, 'src/vite.config.ts')).toBe(true);
+    expect(isProtectedPath(policy, 'src/nested/vite.config.ts')).toBe(false);
+    expect(isProtectedPath(policy, 'other/src/vite.config.ts')).toBe(false);
+    expect(isProtectedPath(policy, 'config/a/b.json')).toBe(true);
+  });
+
+  it('should protect the files inside of a protected folder', () => {
+    expect(isProtectedPath(DEFAULT_PATH_POLICY, '.git/config')).toBe(true);
+    expect(isProtectedPath(DEFAULT_PATH_POLICY, '.git')).toBe(true);
+    expect(isProtectedPath(DEFAULT_PATH_POLICY, 'src/.git')).toBe(false);
+    expect(isProtectedPath(DEFAULT_PATH_POLICY, '.gitignore')).toBe(false);
+    expect(isProtectedPath({ protectedPaths: ['secrets'] }, 'secrets/key.pem')).toBe(true);
+  });
+});
+
+describe('validateFilePath', () => {
+  it('should normalize paths inside the work directory', () => {
+    expect(validateFilePath('./src/index.js')).toBe('src/index.js');
+    expect(validateFilePath('/home/project/src/index.js')).toBe('src/index.js');
+    expect(validateFilePath('src/../index.js')).toBe('index.js');
+  });
+
+  it('should reject paths outside of the work directory', () => {
+    expect(() => validateFilePath('../index.js')).toThrow('outside of the project');
+    expect(() => validateFilePath('/etc/passwd')).toThrow('outside of the project');
+    expect(() => validateFilePath('src/../../index.js')).toThrow('outside of the project');
+    expect(() => validateFilePath('.')).toThrow('Invalid file path');
+    expect(() => validateFilePath('')).toThrow('No file path specified');
+  });
+});
+
+describe('getMovedPath', () => {
+  it('should move the path itself and paths inside of it', () => {
+    expect(getMovedPath('/home/project/src', '/home/project/src', '/home/project/lib')).toBe('/home/project/lib');
+    expect(getMovedPath('/home/project/src/a/b.js', '/home/project/src', '/home/project/lib')).toBe(
+      '/home/project/lib/a/b.js',
+    );
+  });
+
+  it('should keep paths that only share a prefix', () => {
+    expect(getMovedPath('/home/project/src2/b.js', '/home/project/src', '/home/project/lib')).toBe(
+      '/home/project/src2/b.js',
+    );
+  });
+});
@@ -0,0 +1,45 @@
+export interface PathPolicy {
+  /**
+   * Patterns of files that actions may only write, delete or move after the user approved it. A pattern
+   * without a `/` matches the name of a file in any folder, `*` matches any characters except `/` and
+   * `**` matches any characters including `/`.
+   */
+  protectedPaths: string[];
+}
+
+export const DEFAULT_PATH_POLICY: PathPolicy = {
+  protectedPaths: ['.env', '.env.*', 'package-lock.json', 'pnpm-lock.yaml', 'yarn.lock', 'bun.lockb', '.git/**'],
+};
+
+/**
+ * Checks whether a path relative to the work directory matches one of the protected paths of the policy.
+ */
+export function isProtectedPath(policy: PathPolicy, filePath: string) {
+  return policy.protectedPaths.some((pattern) => matchesPattern(pattern, filePath));
+}
+
+function matchesPattern(pattern: string, filePath: string) {
+  const normalizedPattern = pattern.trim().replace(/^\.?\/+/, '');
+
+  if (!normalizedPattern) {
+    return false;
+  }
+
+  // patterns without a folder match in any folder like in `.gitignore`
+  const prefix = normalizedPattern.includes('/') ? '' : '(?:.*/)?';
+
+  // `folder/**` matches the folder itself as well, files inside of folders are matched below anyway
+  const source = normalizedPattern
+    .replace(/\/\*\*$/, '')
+    .split('**')
+    .map((part) =>
+      part
+        .split('*')
+        .map((segment) => segment.replace(/[.+?^${}()|[\]\\]/g, '\\$&'))
+        .join('[^/]*'),
+    )
+    .join('.*');
+
+  // a pattern that matches a folder also protects the files inside of it
+  return new RegExp(`^${prefix}${source}(?:/.*)?$`).test(filePath);
+}
@@ -0,0 +1,51 @@
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_SHELL_POLICY, evaluateShellPolicy, type ShellPolicy } from './shell-policy';
+
+const policy: ShellPolicy = { ...DEFAULT_SHELL_POLICY, enabled: true };
+
+describe('evaluateShellPolicy', () => {
+  it('should match patterns followed by arguments', () => {
+    expect(evaluateShellPolicy(policy, 'npm install')).toBe('allow');
+    expect(evaluateShellPolicy(policy, 'npm  install react react-dom')).toBe('allow');
+    expect(evaluateShellPolicy(policy, 'npm installer')).toBe('ask');
+  });
+
+  it('should use the default decision for unknown commands', () => {
+    expect(evaluateShellPolicy(policy, 'node index.js')).toBe('ask');
+    expect(evaluateShellPolicy({ ...policy, defaultDecision: 'allow' }, 'node index.js')).toBe('allow');
+  });
+
+  it('should prefer deny over ask over allow', () => {
+    expect(evaluateShellPolicy(policy, 'rm -rf node_modules')).toBe('ask');
+    expect(evaluateShellPolicy(policy, 'rm -rf /')).toBe('deny');
+    expect(evaluateShellPolicy({ ...policy, allow: ['rm'] }, 'rm file.txt')).toBe('ask');
+  });
+
+  it('should use the strictest decision of a command list', () => {
+    expect(evaluateShellPolicy(policy, 'npm install && npm run dev')).toBe('allow');
+    expect(evaluateShellPolicy(policy, 'npm install && rm -rf dist')).toBe('ask');
+    expect(evaluateShellPolicy(policy, 'echo hi; sudo reboot')).toBe('deny');
+    expect(evaluateShellPolicy(policy, 'ls & rm -rf ~')).toBe('deny');
+    expect(evaluateShellPolicy(policy, 'ls & rm dist')).toBe('ask');
+  });
+
+  it('should check nested commands', () => {
+    expect(evaluateShellPolicy(policy, 'echo $(rm -rf ~)')).toBe('deny');
+    expect(evaluateShellPolicy(policy, 'echo `rm -rf ~`')).toBe('deny');
+    expect(evaluateShellPolicy(policy, 'echo $(ls)')).toBe('ask');
+    expect(evaluateShellPolicy(policy, 'echo `ls`')).toBe('ask');
+    expect(evaluateShellPolicy(policy, 'cat <(ls)')).toBe('ask');
+    expect(evaluateShellPolicy(policy, '(rm -rf src)')).toBe('ask');
+    expect(evaluateShellPolicy(policy, '(ls)')).toBe('ask');
+  });
+
+  it('should ask before redirecting output into files', () => {
+    expect(evaluateShellPolicy(policy, 'cat x > package.json')).toBe('ask');
+    expect(evaluateShellPolicy(policy, 'echo hi >> .env')).toBe('ask');
+  });
+
+  it('should support wildcards', () => {
+    expect(evaluateShellPolicy({ ...policy, allow: ['npx *-cli'] }, 'npx create-vite-cli my-app')).toBe('allow');
+    expect(evaluateShellPolicy({ ...policy, deny: ['* --force'] }, 'npm install --force')).toBe('deny');
+  });
+});
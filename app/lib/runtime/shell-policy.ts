@@ -0,0 +1,103 @@
+export type ShellPolicyDecision = 'allow' | 'ask' | 'deny';
+
+export interface ShellPolicy {
+  /**
+   * Whether commands need approval. If disabled, all commands run without asking.
+   */
+  enabled: boolean;
+
+  /**
+   * Decision for commands that don't match any of the patterns.
+   */
+  defaultDecision: Exclude<ShellPolicyDecision, 'deny'>;
+
+  /**
+   * Patterns are matched against each command of a command list, e.g. `npm install && npm run dev`.
+   * A pattern matches a command that starts with the pattern followed by arguments, `*` matches any
+   * characters.
+   */
+  allow: string[];
+  ask: string[];
+  deny: string[];
+}
+
+export const DEFAULT_SHELL_POLICY: ShellPolicy = {
+  enabled: false,
+  defaultDecision: 'ask',
+  allow: ['npm install', 'npm i', 'npm ci', 'pnpm install', 'yarn install', 'npm run', 'ls', 'cat', 'echo', 'mkdir'],
+  ask: ['rm', 'mv', 'curl', 'wget', 'git'],
+  deny: ['rm -rf /', 'rm -rf ~', 'sudo'],
+};
+
+/**
+ * Command substitutions, subshells and redirections, e.g. `echo $(rm -rf ~)` or `cat x > package.json`.
+ * Commands that contain them are never allowed without asking because the patterns can't tell what
+ * they run or write.
+ */
+const NESTED_COMMAND_REGEX = /[`()>]/;
+
+// stricter decisions win if the commands of a command list have different decisions
+const DECISION_PRIORITY: Record<ShellPolicyDecision, number> = {
+  allow: 0,
+  ask: 1,
+  deny: 2,
+};
+
+/**
+ * Decides whether a command may run based on the given policy. Deny patterns take precedence over ask
+ * patterns which take precedence over allow patterns.
+ */
+export function evaluateShellPolicy(policy: ShellPolicy, command: string): ShellPolicyDecision {
+  const commands = splitCommands(command);
+
+  let decision: ShellPolicyDecision = NESTED_COMMAND_REGEX.test(command) ? 'ask' : 'allow';
+
+  for (const subCommand of commands) {
+    const subDecision = evaluateCommand(policy, subCommand);
+
+    if (DECISION_PRIORITY[subDecision] > DECISION_PRIORITY[decision]) {
+      decision = subDecision;
+    }
+  }
+
+  return decision;
+}
+
+function evaluateCommand(policy: ShellPolicy, command: string): ShellPolicyDecision {
+  if (policy.deny.some((pattern) => matchesPattern(pattern, command))) {
+    return 'deny';
+  }
+
+  if (policy.ask.some((pattern) => matchesPattern(pattern, command))) {
+    return 'ask';
+  }
+
+  if (policy.allow.some((pattern) => matchesPattern(pattern, command))) {
+    return 'allow';
+  }
+
+  return policy.defaultDecision;
+}
+
+// nested commands are split off as well so that they are checked against the patterns on their own
+function splitCommands(command: string) {
+  return command
+    .split(/&&|\|\||[;|&\n`()]/)
+    .map((subCommand) => subCommand.trim().replace(/\s+/g, ' '))
+    .filter((subCommand) => subCommand.length > 0);
+}
+
+function matchesPattern(pattern: string, command: string) {
+  const normalizedPattern = pattern.trim().replace(/\s+/g, ' ');
+
+  if (!normalizedPattern) {
+    return false;
+  }
+
+  const source = normalizedPattern
+    .split('*')
+    .map((part) => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&'))
+    .join('.*');
+
+  return new RegExp(`^${source}(?:\\s.*)?$`).test(command);
+}
@@ -0,0 +1,40 @@
+import type { BoltAction } from '~/types/actions';
+
+type ToolArgs = Record<string, string | undefined>;
+
+/**
+ * Turns a tool call of the native tool-calling mode into the action the model would have written as an
+ * action tag.
+ *
+ * @returns The action or `undefined` if the tool doesn't create an action, e.g. `readFile`.
+ */
+export function toolCallToAction(toolName: string, args: ToolArgs): BoltAction | undefined {
+  switch (toolName) {
+    case 'writeFile': {
+      return { type: 'file', filePath: args.filePath ?? '', content: withTrailingNewline(args.content) };
+    }
+    case 'patchFile': {
+      return { type: 'patch', filePath: args.filePath ?? '', content: withTrailingNewline(args.diff) };
+    }
+    case 'deleteFile': {
+      return { type: 'delete', filePath: args.filePath ?? '', content: '' };
+    }
+    case 'moveFile': {
+      return { type: 'move', filePath: args.filePath ?? '', newFilePath: args.newFilePath ?? '', content: '' };
+    }
+    case 'runCommand': {
+      return { type: 'shell', content: args.command?.trim() ?? '' };
+    }
+    case 'startApplication': {
+      return { type: 'start', content: args.command?.trim() ?? '' };
+    }
+    default: {
+      return undefined;
+    }
+  }
+}
+
+// files written with action tags always end with a newline, see `StreamingMessageParser`
+function withTrailingNewline(content = '') {
+  return `${content.trim()}\n`;
+}
@@ -4,4 +4,7 @@ export const chatStore = map({
   started: false,
   aborted: false,
   showChat: true,
+
+  // number of consecutive messages that asked the model to fix errors, reset by any other message
+  fixAttempts: 0,
 });
@@ -0,0 +1,44 @@
+import { describe, expect, it } from 'vitest';
+import { EditorStore } from './editor';
+import type { FileMap, FilesStore } from './files';
+
+function createEditorStore(files: FileMap) {
+  const editorStore = new EditorStore({} as FilesStore);
+
+  editorStore.setDocuments(files);
+
+  return editorStore;
+}
+
+describe('EditorStore', () => {
+  const files: FileMap = {
+    '/home/project/index.js': { type: 'file', content: 'console.log("hi");\n', isBinary: false },
+  };
+
+  it('should keep the partial content of streaming files when files change', () => {
+    const editorStore = createEditorStore(files);
+
+    editorStore.streamFile('/home/project/index.js', 'console');
+    editorStore.setDocuments(files);
+
+    expect(editorStore.documents.get()['/home/project/index.js'].value).toBe('console');
+  });
+
+  it('should restore the files when the generation is aborted in the middle of an action', () => {
+    const editorStore = createEditorStore(files);
+
+    editorStore.streamFile('/home/project/index.js', 'console');
+    editorStore.streamFile('/home/project/new.js', 'export');
+    editorStore.endAllStreaming(files);
+
+    expect(Object.keys(editorStore.documents.get())).toEqual(['/home/project/index.js']);
+    expect(editorStore.documents.get()['/home/project/index.js'].value).toBe('console.log("hi");\n');
+
+    // later changes of the files aren't hidden anymore
+    editorStore.setDocuments({
+      '/home/project/index.js': { type: 'file', content: 'changed', isBinary: false },
+    });
+
+    expect(editorStore.documents.get()['/home/project/index.js'].value).toBe('changed');
+  });
+});
@@ -1,5 +1,6 @@
 import { atom, computed, map, type MapStore, type WritableAtom } from 'nanostores';
 import type { EditorDocument, ScrollPosition } from '~/components/editor/codemirror/CodeMirrorEditor';
+import { getMovedPath } from '~/lib/runtime/file-utils';
 import type { FileMap, FilesStore } from './files';
 
 export type EditorDocuments = Record<string, EditorDocument>;
@@ -9,6 +10,12 @@ type SelectedFile = WritableAtom<string | undefined>;
 export class EditorStore {
   #filesStore: FilesStore;
 
+  /**
+   * Files whose content is currently being streamed by the model. Their documents aren't replaced when
+   * other files change so that the partial content stays visible.
+   */
+  #streamingFiles = new Set<string>();
+
   selectedFile: SelectedFile = import.meta.hot?.data.selectedFile ?? atom<string | undefined>();
   documents: MapStore<EditorDocuments> = import.meta.hot?.data.documents ?? map({});
 
@@ -29,31 +36,79 @@ export class EditorStore {
     }
   }
 
-  setDocuments(files: FileMap) {
+  /**
+   * Updates the documents with the content of the files.
+   *
+   * @param unsavedFiles Files whose documents keep their content because the user didn't save it yet.
+   * @param keptFiles Unsaved files whose documents are kept even though the file was deleted, e.g. until
+   * the user decided whether to restore it.
+   */
+  setDocuments(files: FileMap, unsavedFiles = new Set<string>(), keptFiles = new Set<string>()) {
     const previousDocuments = this.documents.value;
 
-    this.documents.set(
-      Object.fromEntries<EditorDocument>(
-        Object.entries(files)
-          .map(([filePath, dirent]) => {
-            if (dirent === undefined || dirent.type === 'folder') {
-              return undefined;
-            }
-
-            const previousDocument = previousDocuments?.[filePath];
-
-            return [
+    const documents = Object.fromEntries<EditorDocument>(
+      Object.entries(files)
+        .map(([filePath, dirent]) => {
+          if (dirent === undefined || dirent.type === 'folder') {
+            return undefined;
+          }
+
+          const previousDocument = previousDocuments?.[filePath];
+
+          return [
+            filePath,
+            {
+              value: dirent.content,
+              isBinary: dirent.isBinary,
+              data: dirent.data,
               filePath,
-              {
-                value: dirent.content,
-                filePath,
-                scroll: previousDocument?.scroll,
-              },
-            ] as [string, EditorDocument];
-          })
-          .filter(Boolean) as Array<[string, EditorDocument]>,
-      ),
+              scroll: previousDocument?.scroll,
+            },
+          ] as [string, EditorDocument];
+        })
+        .filter(Boolean) as Array<[string, EditorDocument]>,
     );
+
+    for (const filePath of this.#streamingFiles) {
+      const streamingDocument = previousDocuments?.[filePath];
+
+      if (streamingDocument) {
+        documents[filePath] = streamingDocument;
+      }
+    }
+
+    for (const filePath of unsavedFiles) {
+      const unsavedDocument = previousDocuments?.[filePath];
+
+      // the unsaved content is lost if the file was deleted unless it's kept
+      if (unsavedDocument && (documents[filePath] || keptFiles.has(filePath))) {
+        documents[filePath] = unsavedDocument;
+      }
+    }
+
+    this.documents.set(documents);
+  }
+
+  /**
+   * Takes over the documents of a moved file or folder so that their unsaved content and scroll positions
+   * are kept.
+   *
+   * @param previousDocuments The documents from before the move because the documents of the old paths are
+   * removed as soon as the files change.
+   */
+  moveDocuments(previousDocuments: EditorDocuments, oldPath: string, newPath: string) {
+    const documents = { ...this.documents.get() };
+
+    for (const [filePath, document] of Object.entries(previousDocuments)) {
+      const movedPath = getMovedPath(filePath, oldPath, newPath);
+
+      if (movedPath !== filePath) {
+        delete documents[filePath];
+        documents[movedPath] = { ...document, filePath: movedPath };
+      }
+    }
+
+    this.documents.set(documents);
   }
 
   setSelectedFile(filePath: string | undefined) {
@@ -74,6 +129,45 @@ export class EditorStore {
     });
   }
 
+  /**
+   * Shows the partial content of a file that is being generated. The document is created if the file
+   * doesn't exist yet.
+   */
+  streamFile(filePath: string, content: string) {
+    this.#streamingFiles.add(filePath);
+
+    const documentState = this.documents.get()[filePath];
+
+    if (documentState?.value === content) {
+      return;
+    }
+
+    this.documents.setKey(filePath, {
+      scroll: documentState?.scroll,
+      value: content,
+      isBinary: false,
+      filePath,
+    });
+  }
+
+  endStreaming(filePath: string) {
+    this.#streamingFiles.delete(filePath);
+  }
+
+  /**
+   * Stops showing the partial content of all files, e.g. because the generation stopped before their
+   * actions were complete. Their documents show the content of the files again and documents of files
+   * that were never written are removed.
+   */
+  endAllStreaming(files: FileMap, unsavedFiles?: Set<string>, keptFiles?: Set<string>) {
+    if (this.#streamingFiles.size === 0) {
+      return;
+    }
+
+    this.#streamingFiles.clear();
+    this.setDocuments(files, unsavedFiles, keptFiles);
+  }
+
   updateFile(filePath: string, newContent: string) {
     const documents = this.documents.get();
     const documentState = documents[filePath];
@@ -0,0 +1,136 @@
+import type { WebContainer } from '@webcontainer/api';
+import { atom } from 'nanostores';
+import type { ProjectEnvironment } from '~/types/env';
+import { createScopedLogger } from '~/utils/logger';
+
+const logger = createScopedLogger('EnvStore');
+
+const DOT_ENV_FILE = '.env';
+const GITIGNORE_FILE = '.gitignore';
+
+// short values like `1` or `true` aren't secrets and masking them would garble the output
+const MIN_MASKED_LENGTH = 4;
+
+const MASK = '********';
+
+export const EMPTY_ENVIRONMENT: ProjectEnvironment = {
+  variables: {},
+  writeDotEnv: false,
+};
+
+export class EnvStore {
+  #webcontainer: Promise<WebContainer>;
+  #syncPromise = Promise.resolve();
+
+  /**
+   * Content of the `.env` file we wrote last, so that we never remove a file we didn't create.
+   */
+  #writtenDotEnv: string | undefined;
+
+  environment = atom<ProjectEnvironment>(EMPTY_ENVIRONMENT);
+
+  constructor(webcontainerPromise: Promise<WebContainer>) {
+    this.#webcontainer = webcontainerPromise;
+
+    this.environment.listen(() => {
+      this.#syncPromise = this.#syncPromise
+        .then(() => this.#syncDotEnv())
+        .catch((error) => {
+          logger.error('Failed to update .env file\n\n', error);
+        });
+    });
+  }
+
+  /**
+   * Variables that are passed to the processes of actions and terminals.
+   */
+  getEnv() {
+    return this.environment.get().variables;
+  }
+
+  setVariable(name: string, value: string) {
+    const environment = this.environment.get();
+
+    this.environment.set({ ...environment, variables: { ...environment.variables, [name]: value } });
+  }
+
+  removeVariable(name: string) {
+    const { [name]: _removed, ...variables } = this.environment.get().variables;
+
+    this.environment.set({ ...this.environment.get(), variables });
+  }
+
+  setWriteDotEnv(writeDotEnv: boolean) {
+    this.environment.set({ ...this.environment.get(), writeDotEnv });
+  }
+
+  /**
+   * Replaces the values of all variables in the given text, e.g. in the output of a command.
+   */
+  maskSecrets(text: string) {
+    return maskSecrets(text, Object.values(this.getEnv()));
+  }
+
+  async #syncDotEnv() {
+    const webcontainer = await this.#webcontainer;
+    const { variables, writeDotEnv } = this.environment.get();
+
+    if (!writeDotEnv || Object.keys(variables).length === 0) {
+      if (this.#writtenDotEnv !== undefined) {
+        // the file is kept if it was changed since we wrote it
+        if ((await readFile(webcontainer, DOT_ENV_FILE)) === this.#writtenDotEnv) {
+          await webcontainer.fs.rm(DOT_ENV_FILE, { force: true });
+        }
+
+        this.#writtenDotEnv = undefined;
+      }
+
+      return;
+    }
+
+    const content = serializeDotEnv(variables);
+
+    if (content === this.#writtenDotEnv) {
+      return;
+    }
+
+    await webcontainer.fs.writeFile(DOT_ENV_FILE, content);
+
+    this.#writtenDotEnv = content;
+
+    const gitignore = (await readFile(webcontainer, GITIGNORE_FILE)) ?? '';
+
+    if (!gitignore.split('\n').some((line) => ['.env', '.env*', '*.env', '/.env'].includes(line.trim()))) {
+      const separator = gitignore === '' || gitignore.endsWith('\n') ? '' : '\n';
+
+      await webcontainer.fs.writeFile(GITIGNORE_FILE, `${gitignore}${separator}${DOT_ENV_FILE}\n`);
+    }
+  }
+}
+
+export function isValidVariableName(name: string) {
+  return /^[A-Za-z_][A-Za-z0-9_]*$/.test(name);
+}
+
+export function maskSecrets(text: string, values: string[]) {
+  // longer values first so that a value containing another value is masked completely
+  const secrets = values.filter((value) => value.length >= MIN_MASKED_LENGTH).sort((a, b) => b.length - a.length);
+
+  return secrets.reduce((maskedText, secret) => maskedText.split(secret).join(MASK), text);
+}
+
+function serializeDotEnv(variables: Record<string, string>) {
+  const lines = Object.entries(variables).map(([name, value]) => {
+    return /^[\w@%+=:,./-]*$/.test(value) ? `${name}=${value}` : `${name}=${JSON.stringify(value)}`;
+  });
+
+  return `${lines.join('\n')}\n`;
+}
+
+async function readFile(webcontainer: WebContainer, filePath: string) {
+  try {
+    return await webcontainer.fs.readFile(filePath, 'utf-8');
+  } catch {
+    return undefined;
+  }
+}
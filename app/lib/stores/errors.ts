@@ -0,0 +1,71 @@
+import { PreviewMessageType, type WebContainer } from '@webcontainer/api';
+import { atom } from 'nanostores';
+import type { RuntimeError, RuntimeErrorData } from '~/types/errors';
+
+// apps that fail in a loop can produce lots of errors but the model only needs the most recent ones
+const MAX_ERRORS = 5;
+
+// keeps the prompt small if an error comes with a huge stack trace or build output
+const MAX_DETAILS_LENGTH = 2_000;
+
+export class ErrorsStore {
+  #webcontainer: Promise<WebContainer>;
+  #maskSecrets: (text: string) => string;
+  #nextId = 0;
+
+  errors = atom<RuntimeError[]>([]);
+
+  /**
+   * @param maskSecrets Removes secrets from errors because they are sent to the model.
+   */
+  constructor(webcontainerPromise: Promise<WebContainer>, maskSecrets: (text: string) => string = (text) => text) {
+    this.#webcontainer = webcontainerPromise;
+    this.#maskSecrets = maskSecrets;
+
+    this.#init();
+  }
+
+  async #init() {
+    const webcontainer = await this.#webcontainer;
+
+    webcontainer.on('preview-message', (message) => {
+      if (message.type === PreviewMessageType.ConsoleError) {
+        return;
+      }
+
+      const kind =
+        message.type === PreviewMessageType.UnhandledRejection ? 'Unhandled promise rejection' : 'Uncaught error';
+
+      this.addError({
+        source: 'preview',
+        title: `${kind} in preview at ${message.pathname}`,
+        details: message.stack ?? message.message,
+      });
+    });
+  }
+
+  addError(error: RuntimeErrorData) {
+    const errors = this.errors.get();
+    const title = this.#maskSecrets(error.title);
+    const details = this.#maskSecrets(error.details.trim()).slice(-MAX_DETAILS_LENGTH);
+
+    if (errors.some((existingError) => existingError.details === details)) {
+      return;
+    }
+
+    this.errors.set([...errors, { ...error, title, details, id: String(this.#nextId++) }].slice(-MAX_ERRORS));
+  }
+
+  clearErrors() {
+    this.errors.set([]);
+  }
+}
+
+/**
+ * Creates the message that asks the model to fix the given errors.
+ */
+export function createFixPrompt(errors: RuntimeError[]) {
+  const sections = errors.map(({ title, details }) => `**${title}**\n\n\`\`\`\n${details}\n\`\`\``);
+
+  return [`Please fix the following ${errors.length === 1 ? 'error' : 'errors'}:`, ...sections].join('\n\n');
+}
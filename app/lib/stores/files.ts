@@ -3,6 +3,7 @@ import { getEncoding } from 'istextorbinary';
 import { map, type MapStore } from 'nanostores';
 import { Buffer } from 'node:buffer';
 import * as nodePath from 'node:path';
+import { getMovedPath, isInsideWorkDir, isPathInFolder } from '~/lib/runtime/file-utils';
 import { bufferWatchEvents } from '~/utils/buffer';
 import { WORK_DIR } from '~/utils/constants';
 import { computeFileModifications } from '~/utils/diff';
@@ -13,10 +14,18 @@ const logger = createScopedLogger('FilesStore');
 
 const utf8TextDecoder = new TextDecoder('utf8', { fatal: true });
 
+// time in ms for which events of the file watcher are collected before they are processed
+const WATCH_BUFFER_TIME = 100;
+
 export interface File {
   type: 'file';
   content: string;
   isBinary: boolean;
+
+  /**
+   * Raw bytes of binary files, their `content` is empty.
+   */
+  data?: Uint8Array;
 }
 
 export interface Folder {
@@ -36,11 +45,17 @@ export class FilesStore {
   #size = 0;
 
   /**
-   * @note Keeps track all modified files with their original content since the last user message.
-   * Needs to be reset when the user sends another message and all changes have to be submitted
-   * for the model to be aware of the changes.
+   * @note Keeps track all modified files with their original content since the last user message or
+   * `null` if they were created since then. Needs to be reset when the user sends another message and
+   * all changes have to be submitted for the model to be aware of the changes.
    */
-  #modifiedFiles: Map<string, string> = import.meta.hot?.data.modifiedFiles ?? new Map();
+  #modifiedFiles: Map<string, string | null> = import.meta.hot?.data.modifiedFiles ?? new Map();
+
+  /**
+   * Paths of the files and folders that actions of the model are changing with the number of actions
+   * changing them. Their changes are known to the model and aren't tracked as modifications.
+   */
+  #pendingModelChanges = new Map<string, number>();
 
   /**
    * Map of files that matches the state of WebContainer.
@@ -80,15 +95,41 @@ export class FilesStore {
     this.#modifiedFiles.clear();
   }
 
+  /**
+   * Doesn't track the changes of the given files and folders that are made until the given promise
+   * settles as modifications, e.g. because an action of the model is making them. Changes of other files
+   * are still tracked.
+   */
+  ignoreChangesDuring(promise: Promise<unknown>, filePaths: string[]) {
+    for (const filePath of filePaths) {
+      this.#pendingModelChanges.set(filePath, (this.#pendingModelChanges.get(filePath) ?? 0) + 1);
+    }
+
+    promise
+      .catch(() => {
+        // failed actions may have changed files as well
+      })
+      .then(() => {
+        // the watcher reports changes with a delay, so we wait for the last changes of the action
+        setTimeout(() => {
+          for (const filePath of filePaths) {
+            const count = (this.#pendingModelChanges.get(filePath) ?? 1) - 1;
+
+            if (count > 0) {
+              this.#pendingModelChanges.set(filePath, count);
+            } else {
+              this.#pendingModelChanges.delete(filePath);
+            }
+          }
+        }, WATCH_BUFFER_TIME * 2);
+      });
+  }
+
   async saveFile(filePath: string, content: string) {
     const webcontainer = await this.#webcontainer;
 
     try {
-      const relativePath = nodePath.relative(webcontainer.workdir, filePath);
-
-      if (!relativePath) {
-        throw new Error(`EINVAL: invalid file path, write '${relativePath}'`);
-      }
+      const relativePath = this.#getRelativePath(webcontainer, filePath, 'write');
 
       const oldContent = this.getFile(filePath)?.content;
 
@@ -98,9 +139,8 @@ export class FilesStore {
 
       await webcontainer.fs.writeFile(relativePath, content);
 
-      if (!this.#modifiedFiles.has(filePath)) {
-        this.#modifiedFiles.set(filePath, oldContent);
-      }
+      // saves are always made by the user, even while an action of the model changes the same file
+      this.#recordModification(filePath, this.getFile(filePath));
 
       // we immediately update the file and don't rely on the `change` event coming from the watcher
       this.files.setKey(filePath, { type: 'file', content, isBinary: false });
@@ -113,12 +153,157 @@ export class FilesStore {
     }
   }
 
+  /**
+   * Writes a new or existing file, e.g. an uploaded asset. The file map is updated by the watcher.
+   */
+  async writeFile(filePath: string, data: string | Uint8Array) {
+    const webcontainer = await this.#webcontainer;
+    const relativePath = this.#getRelativePath(webcontainer, filePath, 'write');
+
+    await this.#createParentFolder(webcontainer, relativePath);
+    await webcontainer.fs.writeFile(relativePath, data);
+
+    logger.info('File written');
+  }
+
+  /**
+   * Creates a new file of the user. Like all of the following operations the file map is updated right
+   * away and the change is recorded as a modification even if an action of the model is running.
+   */
+  async createFile(filePath: string, content = '') {
+    const webcontainer = await this.#webcontainer;
+    const relativePath = this.#getRelativePath(webcontainer, filePath, 'open');
+
+    if (this.files.get()[filePath]) {
+      throw new Error(`EEXIST: file already exists, open '${filePath}'`);
+    }
+
+    await this.#createParentFolder(webcontainer, relativePath);
+    await webcontainer.fs.writeFile(relativePath, content);
+
+    this.#recordModification(filePath, undefined);
+
+    this.#size++;
+    this.files.setKey(filePath, { type: 'file', content, isBinary: false });
+
+    logger.info('File created');
+  }
+
+  async createFolder(folderPath: string) {
+    const webcontainer = await this.#webcontainer;
+    const relativePath = this.#getRelativePath(webcontainer, folderPath, 'mkdir');
+
+    if (this.files.get()[folderPath]) {
+      throw new Error(`EEXIST: file already exists, mkdir '${folderPath}'`);
+    }
+
+    await webcontainer.fs.mkdir(relativePath, { recursive: true });
+
+    this.files.setKey(folderPath, { type: 'folder' });
+
+    logger.info('Folder created');
+  }
+
+  /**
+   * Deletes a file or a folder with all of its content.
+   */
+  async deletePath(path: string) {
+    const webcontainer = await this.#webcontainer;
+    const relativePath = this.#getRelativePath(webcontainer, path, 'rm');
+
+    await webcontainer.fs.rm(relativePath, { recursive: true, force: true });
+
+    const files = { ...this.files.get() };
+
+    for (const [direntPath, dirent] of Object.entries(files)) {
+      if (!isPathInFolder(direntPath, path)) {
+        continue;
+      }
+
+      if (dirent?.type === 'file') {
+        this.#size--;
+        this.#recordModification(direntPath, dirent);
+      }
+
+      delete files[direntPath];
+    }
+
+    this.files.set(files);
+
+    logger.info('Deleted', path);
+  }
+
+  /**
+   * Renames or moves a file or a folder with all of its content.
+   */
+  async movePath(oldPath: string, newPath: string) {
+    const webcontainer = await this.#webcontainer;
+    const oldRelativePath = this.#getRelativePath(webcontainer, oldPath, 'rename');
+    const newRelativePath = this.#getRelativePath(webcontainer, newPath, 'rename');
+
+    if (!this.files.get()[oldPath]) {
+      throw new Error(`ENOENT: no such file or directory, rename '${oldPath}'`);
+    }
+
+    if (this.files.get()[newPath]) {
+      throw new Error(`EEXIST: file already exists, rename '${newPath}'`);
+    }
+
+    if (isPathInFolder(newPath, oldPath)) {
+      throw new Error(`EINVAL: invalid argument, rename '${oldPath}' -> '${newPath}'`);
+    }
+
+    await this.#createParentFolder(webcontainer, newRelativePath);
+    await webcontainer.fs.rename(oldRelativePath, newRelativePath);
+
+    const files: FileMap = {};
+
+    for (const [direntPath, dirent] of Object.entries(this.files.get())) {
+      if (!isPathInFolder(direntPath, oldPath)) {
+        files[direntPath] = dirent;
+        continue;
+      }
+
+      const movedPath = getMovedPath(direntPath, oldPath, newPath);
+
+      // the model sees a moved file as a deleted and a created file
+      if (dirent?.type === 'file') {
+        this.#recordModification(direntPath, dirent);
+        this.#recordModification(movedPath, undefined);
+      }
+
+      files[movedPath] = dirent;
+    }
+
+    this.files.set(files);
+
+    logger.info('Moved', oldPath, 'to', newPath);
+  }
+
+  #getRelativePath(webcontainer: WebContainer, filePath: string, syscall: string) {
+    const relativePath = nodePath.relative(webcontainer.workdir, filePath);
+
+    if (!relativePath || !isInsideWorkDir(relativePath)) {
+      throw new Error(`EINVAL: invalid file path, ${syscall} '${filePath}'`);
+    }
+
+    return relativePath;
+  }
+
+  async #createParentFolder(webcontainer: WebContainer, relativePath: string) {
+    const folder = nodePath.dirname(relativePath);
+
+    if (folder !== '.') {
+      await webcontainer.fs.mkdir(folder, { recursive: true });
+    }
+  }
+
   async #init() {
     const webcontainer = await this.#webcontainer;
 
     webcontainer.internal.watchPaths(
       { include: [`${WORK_DIR}/**`], exclude: ['**/node_modules', '.git'], includeContent: true },
-      bufferWatchEvents(100, this.#processEventBuffer.bind(this)),
+      bufferWatchEvents(WATCH_BUFFER_TIME, this.#processEventBuffer.bind(this)),
     );
   }
 
@@ -138,8 +323,13 @@ export class FilesStore {
         case 'remove_dir': {
           this.files.setKey(sanitizedPath, undefined);
 
-          for (const [direntPath] of Object.entries(this.files)) {
-            if (direntPath.startsWith(sanitizedPath)) {
+          for (const [direntPath, dirent] of Object.entries(this.files.get())) {
+            if (direntPath.startsWith(`${sanitizedPath}/`)) {
+              if (dirent?.type === 'file') {
+                this.#size--;
+                this.#trackChange(direntPath, dirent, null);
+              }
+
               this.files.setKey(direntPath, undefined);
             }
           }
@@ -148,7 +338,8 @@ export class FilesStore {
         }
         case 'add_file':
         case 'change': {
-          if (type === 'add_file') {
+          // we count based on our own state because the watcher does not guarantee an `add_file` per file
+          if (this.files.get()[sanitizedPath]?.type !== 'file') {
             this.#size++;
           }
 
@@ -166,12 +357,21 @@ export class FilesStore {
             content = this.#decodeFileContent(buffer);
           }
 
-          this.files.setKey(sanitizedPath, { type: 'file', content, isBinary });
+          this.#trackChange(sanitizedPath, this.files.get()[sanitizedPath], isBinary ? undefined : content);
+
+          this.files.setKey(sanitizedPath, { type: 'file', content, isBinary, data: isBinary ? buffer : undefined });
 
           break;
         }
         case 'remove_file': {
-          this.#size--;
+          const dirent = this.files.get()[sanitizedPath];
+
+          // the file may already be gone if its folder was removed first
+          if (dirent?.type === 'file') {
+            this.#size--;
+            this.#trackChange(sanitizedPath, dirent, null);
+          }
+
           this.files.setKey(sanitizedPath, undefined);
           break;
         }
@@ -183,6 +383,57 @@ export class FilesStore {
     }
   }
 
+  /**
+   * Remembers the content of a file before its first change since the last user message. Changes of the
+   * model become the new original content instead because the model already knows about them.
+   *
+   * @param previous The file before the change.
+   * @param content The content after the change, `null` if the file was deleted or `undefined` if it's
+   * binary.
+   */
+  #trackChange(filePath: string, previous: Dirent | undefined, content?: string | null) {
+    if (this.#isModelChange(filePath)) {
+      if (this.#modifiedFiles.has(filePath)) {
+        if (content === undefined) {
+          this.#modifiedFiles.delete(filePath);
+        } else {
+          this.#modifiedFiles.set(filePath, content);
+        }
+      }
+
+      return;
+    }
+
+    this.#recordModification(filePath, previous);
+  }
+
+  #isModelChange(filePath: string) {
+    for (const changedPath of this.#pendingModelChanges.keys()) {
+      if (isPathInFolder(filePath, changedPath)) {
+        return true;
+      }
+    }
+
+    return false;
+  }
+
+  /**
+   * Records a change of the user to a file unless the file was already changed before.
+   *
+   * @param previous The file before the change or `undefined` if it was created.
+   */
+  #recordModification(filePath: string, previous: Dirent | undefined) {
+    if (
+      this.#modifiedFiles.has(filePath) ||
+      previous?.type === 'folder' ||
+      (previous?.type === 'file' && previous.isBinary)
+    ) {
+      return;
+    }
+
+    this.#modifiedFiles.set(filePath, previous?.type === 'file' ? previous.content : null);
+  }
+
   #decodeFileContent(buffer?: Uint8Array) {
     if (!buffer || buffer.byteLength === 0) {
       return '';
@@ -197,6 +448,13 @@ export class FilesStore {
   }
 }
 
+/**
+ * Returns the content of a file for exports, binary files are returned as raw bytes.
+ */
+export function getFileData(file: File): string | Uint8Array {
+  return file.isBinary ? file.data ?? new Uint8Array() : file.content;
+}
+
 function isBinaryFile(buffer: Uint8Array | undefined) {
   if (buffer === undefined) {
     return false;
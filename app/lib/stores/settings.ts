@@ -1,5 +1,6 @@
-import { map } from 'nanostores';
-import { workbenchStore } from './workbench';
+import { atom, map } from 'nanostores';
+import { DEFAULT_PATH_POLICY, type PathPolicy } from '~/lib/runtime/path-policy';
+import { DEFAULT_SHELL_POLICY, type ShellPolicy } from '~/lib/runtime/shell-policy';
 
 export interface Shortcut {
   key: string;
@@ -8,27 +9,68 @@ export interface Shortcut {
   altKey?: boolean;
   metaKey?: boolean;
   ctrlOrMetaKey?: boolean;
-  action: () => void;
 }
 
 export interface Shortcuts {
   toggleTerminal: Shortcut;
 }
 
+export interface AutoFixSettings {
+  /**
+   * Whether errors are sent to the model automatically instead of asking the user first.
+   */
+  enabled: boolean;
+  maxAttempts: number;
+}
+
+export interface ToolCallingSettings {
+  /**
+   * Whether actions are requested as tool calls instead of action tags from models that support
+   * function calling.
+   */
+  enabled: boolean;
+}
+
 export interface Settings {
   shortcuts: Shortcuts;
+  autoFix: AutoFixSettings;
+  shellPolicy: ShellPolicy;
+  pathPolicy: PathPolicy;
+  toolCalling: ToolCallingSettings;
 }
 
+export const kAutoFix = 'bolt_auto_fix';
+export const kShellPolicy = 'bolt_shell_policy';
+export const kPathPolicy = 'bolt_path_policy';
+export const kToolCalling = 'bolt_tool_calling';
+
+export const DEFAULT_AUTO_FIX: AutoFixSettings = {
+  enabled: false,
+  maxAttempts: 3,
+};
+
+export const DEFAULT_TOOL_CALLING: ToolCallingSettings = {
+  enabled: false,
+};
+
 export const shortcutsStore = map<Shortcuts>({
   toggleTerminal: {
     key: 'j',
     ctrlOrMetaKey: true,
-    action: () => workbenchStore.toggleTerminal(),
   },
 });
 
+export const autoFixStore = atom<AutoFixSettings>(initPersistedSettings(kAutoFix, DEFAULT_AUTO_FIX));
+export const shellPolicyStore = atom<ShellPolicy>(initPersistedSettings(kShellPolicy, DEFAULT_SHELL_POLICY));
+export const pathPolicyStore = atom<PathPolicy>(initPersistedSettings(kPathPolicy, DEFAULT_PATH_POLICY));
+export const toolCallingStore = atom<ToolCallingSettings>(initPersistedSettings(kToolCalling, DEFAULT_TOOL_CALLING));
+
 export const settingsStore = map<Settings>({
   shortcuts: shortcutsStore.get(),
+  autoFix: autoFixStore.get(),
+  shellPolicy: shellPolicyStore.get(),
+  pathPolicy: pathPolicyStore.get(),
+  toolCalling: toolCallingStore.get(),
 });
 
 shortcutsStore.subscribe((shortcuts) => {
@@ -37,3 +79,77 @@ shortcutsStore.subscribe((shortcuts) => {
     shortcuts,
   });
 });
+
+autoFixStore.subscribe((autoFix) => {
+  settingsStore.set({
+    ...settingsStore.get(),
+    autoFix,
+  });
+});
+
+shellPolicyStore.subscribe((shellPolicy) => {
+  settingsStore.set({
+    ...settingsStore.get(),
+    shellPolicy,
+  });
+});
+
+pathPolicyStore.subscribe((pathPolicy) => {
+  settingsStore.set({
+    ...settingsStore.get(),
+    pathPolicy,
+  });
+});
+
+toolCallingStore.subscribe((toolCalling) => {
+  settingsStore.set({
+    ...settingsStore.get(),
+    toolCalling,
+  });
+});
+
+function initPersistedSettings<T extends object>(key: string, defaultSettings: T): T {
+  if (!import.meta.env.SSR) {
+    try {
+      const persistedSettings = JSON.parse(localStorage.getItem(key) ?? '{}');
+
+      return { ...defaultSettings, ...persistedSettings };
+    } catch {
+      // ignore invalid settings
+    }
+  }
+
+  return defaultSettings;
+}
+
+export function setAutoFix(enabled: boolean) {
+  const autoFix = { ...autoFixStore.get(), enabled };
+
+  autoFixStore.set(autoFix);
+
+  localStorage.setItem(kAutoFix, JSON.stringify(autoFix));
+}
+
+export function updateShellPolicy(update: Partial<ShellPolicy>) {
+  const shellPolicy = { ...shellPolicyStore.get(), ...update };
+
+  shellPolicyStore.set(shellPolicy);
+
+  localStorage.setItem(kShellPolicy, JSON.stringify(shellPolicy));
+}
+
+export function updatePathPolicy(update: Partial<PathPolicy>) {
+  const pathPolicy = { ...pathPolicyStore.get(), ...update };
+
+  pathPolicyStore.set(pathPolicy);
+
+  localStorage.setItem(kPathPolicy, JSON.stringify(pathPolicy));
+}
+
+export function setToolCalling(enabled: boolean) {
+  const toolCalling = { ...toolCallingStore.get(), enabled };
+
+  toolCallingStore.set(toolCalling);
+
+  localStorage.setItem(kToolCalling, JSON.stringify(toolCalling));
+}
@@ -0,0 +1,150 @@
+import type { WebContainer } from '@webcontainer/api';
+import { atom, map, type MapStore, type WritableAtom } from 'nanostores';
+import * as nodePath from 'node:path';
+import type { FileStaging } from '~/lib/runtime/action-runner';
+import { WORK_DIR } from '~/utils/constants';
+import { diffFiles, type FileModifications } from '~/utils/diff';
+import { createScopedLogger } from '~/utils/logger';
+import type { FilesStore } from './files';
+
+const logger = createScopedLogger('StagingStore');
+
+export interface StagedChange {
+  /**
+   * New content of the file or `null` if the file is deleted.
+   */
+  content: string | null;
+}
+
+export type StagedChanges = Record<string, StagedChange | undefined>;
+
+/**
+ * Holds file changes of actions while the workbench is in review mode so that the user can accept or
+ * reject them before they are written to the WebContainer.
+ */
+export class StagingStore implements FileStaging {
+  #webcontainer: Promise<WebContainer>;
+  #filesStore: FilesStore;
+
+  /**
+   * Diffs of rejected changes that haven't been reported to the model yet.
+   */
+  #rejectedChanges: Map<string, string> = import.meta.hot?.data.rejectedChanges ?? new Map();
+
+  /**
+   * Map of staged changes keyed by their absolute file path.
+   */
+  changes: MapStore<StagedChanges> = import.meta.hot?.data.stagedChanges ?? map({});
+  reviewMode: WritableAtom<boolean> = import.meta.hot?.data.reviewMode ?? atom(false);
+
+  constructor(webcontainerPromise: Promise<WebContainer>, filesStore: FilesStore) {
+    this.#webcontainer = webcontainerPromise;
+    this.#filesStore = filesStore;
+
+    if (import.meta.hot) {
+      import.meta.hot.data.rejectedChanges = this.#rejectedChanges;
+      import.meta.hot.data.stagedChanges = this.changes;
+      import.meta.hot.data.reviewMode = this.reviewMode;
+    }
+  }
+
+  getStagedContent(filePath: string) {
+    return this.changes.get()[toAbsolutePath(filePath)]?.content;
+  }
+
+  stageFile(filePath: string, content: string | null) {
+    this.changes.setKey(toAbsolutePath(filePath), { content });
+  }
+
+  /**
+   * Returns the content of a file before its staged change or an empty string if the file is new.
+   */
+  getOriginalContent(filePath: string) {
+    return this.#filesStore.getFile(filePath)?.content ?? '';
+  }
+
+  async acceptChange(filePath: string) {
+    const change = this.changes.get()[filePath];
+
+    if (!change) {
+      return;
+    }
+
+    const applying = this.#applyChange(nodePath.relative(WORK_DIR, filePath), change.content);
+
+    // the change was made by the model and only delayed by the review
+    this.#filesStore.ignoreChangesDuring(applying, [filePath]);
+
+    try {
+      await applying;
+    } catch (error) {
+      logger.error('Failed to apply staged change\n\n', error);
+      throw error;
+    }
+
+    this.changes.setKey(filePath, undefined);
+  }
+
+  async #applyChange(relativePath: string, content: string | null) {
+    const webcontainer = await this.#webcontainer;
+
+    if (content === null) {
+      await webcontainer.fs.rm(relativePath, { recursive: true, force: true });
+      return;
+    }
+
+    const folder = nodePath.dirname(relativePath);
+
+    if (folder !== '.') {
+      await webcontainer.fs.mkdir(folder, { recursive: true });
+    }
+
+    await webcontainer.fs.writeFile(relativePath, content);
+  }
+
+  async acceptAllChanges() {
+    for (const filePath of Object.keys(this.changes.get())) {
+      await this.acceptChange(filePath);
+    }
+  }
+
+  rejectChange(filePath: string) {
+    const change = this.changes.get()[filePath];
+
+    if (!change) {
+      return;
+    }
+
+    const diff = diffFiles(filePath, this.getOriginalContent(filePath), change.content ?? '');
+
+    if (diff) {
+      this.#rejectedChanges.set(filePath, diff);
+    }
+
+    this.changes.setKey(filePath, undefined);
+  }
+
+  rejectAllChanges() {
+    for (const filePath of Object.keys(this.changes.get())) {
+      this.rejectChange(filePath);
+    }
+  }
+
+  getRejectedChanges() {
+    const modifications: FileModifications = {};
+
+    for (const [filePath, diff] of this.#rejectedChanges) {
+      modifications[filePath] = { type: 'rejected', content: diff };
+    }
+
+    return modifications;
+  }
+
+  resetRejectedChanges() {
+    this.#rejectedChanges.clear();
+  }
+}
+
+function toAbsolutePath(filePath: string) {
+  return nodePath.resolve(WORK_DIR, filePath);
+}
@@ -6,12 +6,17 @@ import { coloredText } from '~/utils/terminal';
 
 export class TerminalStore {
   #webcontainer: Promise<WebContainer>;
+  #getEnv: () => Record<string, string>;
   #terminals: Array<{ terminal: ITerminal; process: WebContainerProcess }> = [];
 
   showTerminal: WritableAtom<boolean> = import.meta.hot?.data.showTerminal ?? atom(false);
 
-  constructor(webcontainerPromise: Promise<WebContainer>) {
+  /**
+   * @param getEnv Returns the environment variables of new shells.
+   */
+  constructor(webcontainerPromise: Promise<WebContainer>, getEnv: () => Record<string, string> = () => ({})) {
     this.#webcontainer = webcontainerPromise;
+    this.#getEnv = getEnv;
 
     if (import.meta.hot) {
       import.meta.hot.data.showTerminal = this.showTerminal;
@@ -24,7 +29,7 @@ export class TerminalStore {
 
   async attachTerminal(terminal: ITerminal) {
     try {
-      const shellProcess = await newShellProcess(await this.#webcontainer, terminal);
+      const shellProcess = await newShellProcess(await this.#webcontainer, terminal, this.#getEnv());
       this.#terminals.push({ terminal, process: shellProcess });
     } catch (error: any) {
       terminal.write(coloredText.red('Failed to spawn shell\n\n') + error.message);
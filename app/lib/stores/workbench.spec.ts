@@ -0,0 +1,88 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import type { BoltAction } from '~/types/actions';
+import type { FileMap } from './files';
+import { WorkbenchStore } from './workbench';
+
+// actions are queued but never executed, only the state of the editor is tested
+vi.mock('~/lib/webcontainer', () => ({
+  webcontainer: new Promise(() => {
+    // never boots
+  }),
+}));
+
+const filePath = '/home/project/src/index.js';
+
+const files: FileMap = {
+  [filePath]: { type: 'file', content: 'original', isBinary: false },
+};
+
+function runAction(workbenchStore: WorkbenchStore, action: BoltAction) {
+  const data = { artifactId: 'artifact', messageId: 'message', artifactIndex: 0, actionId: '0', action };
+
+  workbenchStore.addArtifact({ id: 'artifact', title: 'Artifact', messageId: 'message', artifactIndex: 0 });
+  workbenchStore.addAction(data);
+  workbenchStore.runAction(data);
+}
+
+describe('WorkbenchStore', () => {
+  let workbenchStore: WorkbenchStore;
+
+  beforeEach(() => {
+    workbenchStore = new WorkbenchStore();
+
+    workbenchStore.files.set(files);
+    workbenchStore.setDocuments(files);
+    workbenchStore.setSelectedFile(filePath);
+    workbenchStore.setCurrentDocumentContent('unsaved');
+  });
+
+  it('should keep unsaved changes of a file that an action deletes', () => {
+    runAction(workbenchStore, { type: 'delete', filePath: 'src', content: '' });
+
+    workbenchStore.setDocuments({});
+
+    expect(workbenchStore.conflicts.get()[filePath]).toEqual({ base: 'original' });
+    expect(workbenchStore.unsavedFiles.get().has(filePath)).toBe(true);
+    expect(workbenchStore.getDocumentContent(filePath)).toBe('unsaved');
+  });
+
+  it('should move unsaved changes along with a file that an action moves', () => {
+    const newFilePath = '/home/project/src/main.js';
+
+    runAction(workbenchStore, { type: 'move', filePath: 'src/index.js', newFilePath: 'src/main.js', content: '' });
+
+    // the watcher may report the removal of the old file before the new file
+    workbenchStore.setDocuments({});
+    workbenchStore.setDocuments({ [newFilePath]: files[filePath] });
+
+    expect(workbenchStore.unsavedFiles.get()).toEqual(new Set([newFilePath]));
+    expect(workbenchStore.getDocumentContent(newFilePath)).toBe('unsaved');
+    expect(workbenchStore.selectedFile.get()).toBe(newFilePath);
+    expect(workbenchStore.conflicts.get()[newFilePath]).toBeUndefined();
+  });
+
+  it('should skip lockfiles and files exceeding the size limit of the project files', () => {
+    workbenchStore.files.set({
+      ...files,
+      '/home/project/package-lock.json': { type: 'file', content: '{}', isBinary: false },
+      '/home/project/large.txt': { type: 'file', content: 'x'.repeat(500_000), isBinary: false },
+      '/home/project/image.png': { type: 'file', content: '', isBinary: true },
+    });
+
+    expect(workbenchStore.getProjectFiles()).toEqual({ 'src/index.js': 'original' });
+  });
+
+  it('should refuse to re-run an artifact if a later artifact changed the same files', async () => {
+    const content = new TextEncoder().encode('original');
+
+    workbenchStore.snapshots.set({
+      'first-0': { 'src/index.js': content },
+      'second-0': { 'src/index.js': content, 'src/main.js': null },
+    });
+
+    workbenchStore.addArtifact({ id: 'first', title: 'First', messageId: 'first', artifactIndex: 0 });
+    workbenchStore.addArtifact({ id: 'second', title: 'Second', messageId: 'second', artifactIndex: 0 });
+
+    await expect(workbenchStore.rerunArtifact('first-0')).rejects.toThrow('later messages changed src/index.js');
+  });
+});
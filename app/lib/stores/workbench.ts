@@ -1,18 +1,35 @@
 import { atom, map, type MapStore, type ReadableAtom, type WritableAtom } from 'nanostores';
+import * as nodePath from 'node:path';
 import type { EditorDocument, ScrollPosition } from '~/components/editor/codemirror/CodeMirrorEditor';
-import { ActionRunner } from '~/lib/runtime/action-runner';
+import { ActionRunner, type FileSnapshot } from '~/lib/runtime/action-runner';
+import { toFileSystemTree, type ImportedFile } from '~/lib/import';
+import { getMovedPath, isPathInFolder, validateFilePath } from '~/lib/runtime/file-utils';
 import type { ActionCallbackData, ArtifactCallbackData } from '~/lib/runtime/message-parser';
 import { webcontainer } from '~/lib/webcontainer';
+import type { ProjectFiles } from '~/types/files';
 import type { ITerminal } from '~/types/terminal';
+import { WORK_DIR } from '~/utils/constants';
+import { isLockFile } from '~/utils/diff';
+import { mergeThreeWay } from '~/utils/merge';
 import { unreachable } from '~/utils/unreachable';
 import { EditorStore } from './editor';
-import { FilesStore, type FileMap } from './files';
+import { EnvStore } from './env';
+import { ErrorsStore } from './errors';
+import { FilesStore, getFileData, type FileMap } from './files';
 import { PreviewsStore } from './previews';
+import { pathPolicyStore, shellPolicyStore } from './settings';
+import { StagingStore } from './staging';
 import { TerminalStore } from './terminal';
 import JSZip from 'jszip';
 import { saveAs } from 'file-saver';
 import { Octokit } from "@octokit/rest";
 
+/**
+ * Maximum number of characters of the files that are sent with a chat request for the file tools. Files
+ * that don't fit anymore can't be read by the model.
+ */
+const MAX_PROJECT_FILES_LENGTH = 500_000;
+
 export interface ArtifactState {
   id: string;
   title: string;
@@ -26,24 +43,75 @@ type Artifacts = MapStore<Record<string, ArtifactState>>;
 
 export type WorkbenchViewType = 'code' | 'preview';
 
+/**
+ * A file with unsaved changes of the user that an action of the model changed as well.
+ */
+export interface EditConflict {
+  /**
+   * Content of the file that both the unsaved changes and the changes of the model are based on.
+   */
+  base: string;
+}
+
+/**
+ * `ours` keeps the unsaved changes of the user, `theirs` the changes of the model and `merge` combines
+ * both.
+ */
+export type ConflictResolution = 'ours' | 'theirs' | 'merge';
+
+/**
+ * Returns the key of an artifact in the artifacts store. A message can contain multiple artifacts, so the
+ * message id alone isn't unique.
+ */
+export function getArtifactKey(messageId: string, artifactIndex: number) {
+  return `${messageId}-${artifactIndex}`;
+}
+
 export class WorkbenchStore {
   #previewsStore = new PreviewsStore(webcontainer);
   #filesStore = new FilesStore(webcontainer);
   #editorStore = new EditorStore(this.#filesStore);
-  #terminalStore = new TerminalStore(webcontainer);
+  #envStore = new EnvStore(webcontainer);
+  #terminalStore = new TerminalStore(webcontainer, () => this.#envStore.getEnv());
+  #errorsStore = new ErrorsStore(webcontainer, (text) => this.#envStore.maskSecrets(text));
+  #stagingStore = new StagingStore(webcontainer, this.#filesStore);
 
   artifacts: Artifacts = import.meta.hot?.data.artifacts ?? map({});
 
+  /**
+   * Files changed by each artifact keyed by the artifact key, used to revert the changes of a message.
+   */
+  snapshots: MapStore<Record<string, FileSnapshot | undefined>> = import.meta.hot?.data.snapshots ?? map({});
+
   showWorkbench: WritableAtom<boolean> = import.meta.hot?.data.showWorkbench ?? atom(false);
   currentView: WritableAtom<WorkbenchViewType> = import.meta.hot?.data.currentView ?? atom('code');
   unsavedFiles: WritableAtom<Set<string>> = import.meta.hot?.data.unsavedFiles ?? atom(new Set<string>());
+
+  /**
+   * Edit conflicts keyed by the path of the file. The editor keeps the unsaved version of the user until
+   * the conflict is resolved.
+   */
+  conflicts: MapStore<Record<string, EditConflict | undefined>> = import.meta.hot?.data.conflicts ?? map({});
   modifiedFiles = new Set<string>();
   artifactIdList: string[] = [];
 
+  /**
+   * New paths of unsaved files that actions of the model are moving keyed by their old path. Their
+   * documents move along once the files exist at the new path.
+   */
+  #pendingMoves = new Map<string, string>();
+
+  /**
+   * Files of the project the chat was imported from, which aren't part of the messages.
+   */
+  importedFiles: ImportedFile[] | undefined;
+
   constructor() {
     if (import.meta.hot) {
       import.meta.hot.data.artifacts = this.artifacts;
+      import.meta.hot.data.snapshots = this.snapshots;
       import.meta.hot.data.unsavedFiles = this.unsavedFiles;
+      import.meta.hot.data.conflicts = this.conflicts;
       import.meta.hot.data.showWorkbench = this.showWorkbench;
       import.meta.hot.data.currentView = this.currentView;
     }
@@ -73,6 +141,74 @@ export class WorkbenchStore {
     return this.#filesStore.filesCount;
   }
 
+  /**
+   * Errors of failed actions, running applications and the preview since the last message.
+   */
+  get errors() {
+    return this.#errorsStore.errors;
+  }
+
+  clearErrors() {
+    this.#errorsStore.clearErrors();
+  }
+
+  /**
+   * Whether file changes of actions are staged for review instead of being written right away.
+   */
+  get reviewMode() {
+    return this.#stagingStore.reviewMode;
+  }
+
+  get stagedChanges() {
+    return this.#stagingStore.changes;
+  }
+
+  /**
+   * Environment variables of the project. They are passed to commands and terminals but never sent to
+   * the model.
+   */
+  get environment() {
+    return this.#envStore.environment;
+  }
+
+  setEnvVariable(name: string, value: string) {
+    this.#envStore.setVariable(name, value);
+  }
+
+  removeEnvVariable(name: string) {
+    this.#envStore.removeVariable(name);
+  }
+
+  setWriteDotEnv(writeDotEnv: boolean) {
+    this.#envStore.setWriteDotEnv(writeDotEnv);
+  }
+
+  getOriginalContent(filePath: string) {
+    return this.#stagingStore.getOriginalContent(filePath);
+  }
+
+  acceptChange(filePath: string) {
+    this.#detectConflict(filePath);
+
+    return this.#stagingStore.acceptChange(filePath);
+  }
+
+  acceptAllChanges() {
+    for (const filePath of Object.keys(this.stagedChanges.get())) {
+      this.#detectConflict(filePath);
+    }
+
+    return this.#stagingStore.acceptAllChanges();
+  }
+
+  rejectChange(filePath: string) {
+    this.#stagingStore.rejectChange(filePath);
+  }
+
+  rejectAllChanges() {
+    this.#stagingStore.rejectAllChanges();
+  }
+
   get showTerminal() {
     return this.#terminalStore.showTerminal;
   }
@@ -90,7 +226,35 @@ export class WorkbenchStore {
   }
 
   setDocuments(files: FileMap) {
-    this.#editorStore.setDocuments(files);
+    // the documents of moved files are kept until they were moved to their new paths
+    const keptFiles = this.#getKeptFiles();
+    const movedFiles: Array<[oldPath: string, newPath: string]> = [];
+
+    for (const [oldPath, newPath] of this.#pendingMoves) {
+      if (files[newPath]?.type === 'file' && files[oldPath] === undefined) {
+        movedFiles.push([oldPath, newPath]);
+        this.#pendingMoves.delete(oldPath);
+      }
+    }
+
+    this.#editorStore.setDocuments(files, this.unsavedFiles.get(), keptFiles);
+
+    for (const [oldPath, newPath] of movedFiles) {
+      this.#moveUnsavedFile(oldPath, newPath);
+    }
+
+    for (const filePath of this.unsavedFiles.get()) {
+      const file = files[filePath];
+
+      if (file?.type !== 'file' && keptFiles.has(filePath)) {
+        continue;
+      }
+
+      // the file was changed to the unsaved content or deleted
+      if (file?.type !== 'file' || file.content === this.#editorStore.documents.get()[filePath]?.value) {
+        this.#setUnsaved(filePath, false);
+      }
+    }
 
     if (this.#filesStore.filesCount > 0 && this.currentDocument.get() === undefined) {
       // we find the first file and select it
@@ -114,32 +278,172 @@ export class WorkbenchStore {
       return;
     }
 
+    this.#setDocumentContent(filePath, newContent);
+  }
+
+  /**
+   * Resolves an edit conflict. The result of a merge isn't saved so that the user can check it first.
+   * Keeping the changes of a file that the model deleted restores the file.
+   *
+   * @returns The number of conflicts that a merge couldn't resolve and were marked in the file.
+   */
+  async resolveConflict(filePath: string, resolution: ConflictResolution) {
+    const conflict = this.conflicts.get()[filePath];
+    const document = this.#editorStore.documents.get()[filePath];
+    const file = this.#filesStore.getFile(filePath);
+
+    if (!conflict || !document) {
+      return 0;
+    }
+
+    // the model deleted the file, so there is nothing to merge
+    if (!file) {
+      if (resolution === 'theirs') {
+        this.#setUnsaved(filePath, false);
+        this.setDocuments(this.files.get());
+
+        if (this.selectedFile.get() === filePath) {
+          this.setSelectedFile(undefined);
+        }
+      } else {
+        await this.#filesStore.createFile(filePath, document.value);
+      }
+
+      return 0;
+    }
+
+    if (resolution === 'ours') {
+      await this.saveFile(filePath);
+      return 0;
+    }
+
+    if (resolution === 'theirs') {
+      this.#setDocumentContent(filePath, file.content);
+      return 0;
+    }
+
+    const { content, conflicts } = mergeThreeWay(conflict.base, document.value, file.content);
+
+    this.#setDocumentContent(filePath, content);
+    this.conflicts.setKey(filePath, undefined);
+
+    return conflicts;
+  }
+
+  /**
+   * Returns the version of a file that the model wrote and the user didn't see yet because of unsaved
+   * changes.
+   */
+  getConflictingContent(filePath: string) {
+    return this.#filesStore.getFile(filePath)?.content ?? '';
+  }
+
+  getDocumentContent(filePath: string) {
+    return this.#editorStore.documents.get()[filePath]?.value ?? '';
+  }
+
+  #setDocumentContent(filePath: string, newContent: string) {
     const originalContent = this.#filesStore.getFile(filePath)?.content;
     const unsavedChanges = originalContent !== undefined && originalContent !== newContent;
 
     this.#editorStore.updateFile(filePath, newContent);
 
-    const currentDocument = this.currentDocument.get();
+    if (this.#editorStore.documents.get()[filePath]) {
+      this.#setUnsaved(filePath, unsavedChanges);
+    }
+  }
 
-    if (currentDocument) {
-      const previousUnsavedFiles = this.unsavedFiles.get();
+  #setUnsaved(filePath: string, unsaved: boolean) {
+    const previousUnsavedFiles = this.unsavedFiles.get();
 
-      if (unsavedChanges && previousUnsavedFiles.has(currentDocument.filePath)) {
-        return;
-      }
+    if (previousUnsavedFiles.has(filePath) === unsaved) {
+      return;
+    }
 
-      const newUnsavedFiles = new Set(previousUnsavedFiles);
+    const newUnsavedFiles = new Set(previousUnsavedFiles);
 
-      if (unsavedChanges) {
-        newUnsavedFiles.add(currentDocument.filePath);
-      } else {
-        newUnsavedFiles.delete(currentDocument.filePath);
+    if (unsaved) {
+      newUnsavedFiles.add(filePath);
+    } else {
+      newUnsavedFiles.delete(filePath);
+
+      // a conflict only exists as long as the changes of the user aren't saved
+      this.conflicts.setKey(filePath, undefined);
+    }
+
+    this.unsavedFiles.set(newUnsavedFiles);
+  }
+
+  /**
+   * Keeps the unsaved changes of a file that an action of the model is about to change so that the user
+   * can decide which version to keep.
+   */
+  #detectConflict(filePath: string) {
+    if (!this.unsavedFiles.get().has(filePath) || this.conflicts.get()[filePath]) {
+      return;
+    }
+
+    this.conflicts.setKey(filePath, { base: this.#filesStore.getFile(filePath)?.content ?? '' });
+  }
+
+  /**
+   * Keeps the unsaved changes of all files in a file or folder that an action of the model is about to
+   * delete.
+   */
+  #detectDeleteConflicts(path: string) {
+    for (const filePath of this.unsavedFiles.get()) {
+      if (isPathInFolder(filePath, path)) {
+        this.#detectConflict(filePath);
+      }
+    }
+  }
+
+  /**
+   * Remembers the new paths of all unsaved files in a file or folder that an action of the model is
+   * about to move so that their unsaved changes move along.
+   */
+  #trackMove(oldPath: string, newPath: string) {
+    for (const filePath of this.unsavedFiles.get()) {
+      if (isPathInFolder(filePath, oldPath)) {
+        this.#pendingMoves.set(filePath, getMovedPath(filePath, oldPath, newPath));
       }
+    }
+  }
+
+  #moveUnsavedFile(oldPath: string, newPath: string) {
+    this.#editorStore.moveDocuments(this.#editorStore.documents.get(), oldPath, newPath);
+
+    const unsavedFiles = new Set(this.unsavedFiles.get());
 
-      this.unsavedFiles.set(newUnsavedFiles);
+    unsavedFiles.delete(oldPath);
+    unsavedFiles.add(newPath);
+
+    this.unsavedFiles.set(unsavedFiles);
+
+    const conflict = this.conflicts.get()[oldPath];
+
+    if (conflict) {
+      this.conflicts.setKey(oldPath, undefined);
+      this.conflicts.setKey(newPath, conflict);
+    }
+
+    if (this.selectedFile.get() === oldPath) {
+      this.setSelectedFile(newPath);
     }
   }
 
+  /**
+   * Returns the unsaved files whose documents are kept although the files don't exist, either because the
+   * model deleted them and the user didn't decide yet or because they are being moved.
+   */
+  #getKeptFiles() {
+    const conflictedFiles = Object.entries(this.conflicts.get())
+      .filter(([, conflict]) => conflict)
+      .map(([filePath]) => filePath);
+
+    return new Set([...conflictedFiles, ...this.#pendingMoves.keys()]);
+  }
+
   setCurrentDocumentScrollPosition(position: ScrollPosition) {
     const editorDocument = this.currentDocument.get();
 
@@ -166,10 +470,7 @@ export class WorkbenchStore {
 
     await this.#filesStore.saveFile(filePath, document.value);
 
-    const newUnsavedFiles = new Set(this.unsavedFiles.get());
-    newUnsavedFiles.delete(filePath);
-
-    this.unsavedFiles.set(newUnsavedFiles);
+    this.#setUnsaved(filePath, false);
   }
 
   async saveCurrentDocument() {
@@ -201,55 +502,280 @@ export class WorkbenchStore {
 
   async saveAllFiles() {
     for (const filePath of this.unsavedFiles.get()) {
-      await this.saveFile(filePath);
+      // saving would overwrite the changes of the model before the user resolved the conflict
+      if (!this.conflicts.get()[filePath]) {
+        await this.saveFile(filePath);
+      }
+    }
+  }
+
+  /**
+   * Writes files that the user dropped into the file tree into the given folder of the project.
+   *
+   * @returns The paths of the written files.
+   */
+  async uploadFiles(folderPath: string, files: File[]) {
+    const filePaths: string[] = [];
+
+    for (const file of files) {
+      const filePath = nodePath.join(folderPath, file.name);
+
+      await this.#filesStore.writeFile(filePath, new Uint8Array(await file.arrayBuffer()));
+
+      filePaths.push(filePath);
+    }
+
+    return filePaths;
+  }
+
+  /**
+   * Mounts the files of an imported project into the WebContainer without running them through actions,
+   * so they aren't subject to the path policy or the review mode. They aren't reported as changes of the
+   * user because the chat of the import describes them to the model. The files are kept to store them
+   * with the chat, which restores them when it's loaded again.
+   */
+  async importFiles(files: ImportedFile[]) {
+    this.importedFiles = files;
+
+    const filePaths = files.map((file) => nodePath.join(WORK_DIR, file.path));
+
+    // mounting transfers the content of the files, so the kept files need their own copy
+    const tree = toFileSystemTree(files.map((file) => ({ ...file, content: file.content.slice() })));
+    const mounting = webcontainer.then((container) => container.mount(tree));
+
+    this.#filesStore.ignoreChangesDuring(mounting, filePaths);
+
+    await mounting;
+  }
+
+  async createFile(filePath: string) {
+    await this.#filesStore.createFile(filePath);
+
+    this.setSelectedFile(filePath);
+  }
+
+  async createFolder(folderPath: string) {
+    await this.#filesStore.createFolder(folderPath);
+  }
+
+  /**
+   * Deletes a file or folder of the user. Unsaved changes of deleted files are discarded.
+   */
+  async deletePath(path: string) {
+    await this.#filesStore.deletePath(path);
+
+    const selectedFile = this.selectedFile.get();
+
+    if (selectedFile && isPathInFolder(selectedFile, path)) {
+      this.setSelectedFile(undefined);
     }
   }
 
+  /**
+   * Renames or moves a file or folder of the user. Unsaved changes and conflicts move along with the files.
+   */
+  async movePath(oldPath: string, newPath: string) {
+    // the state of the old paths is discarded as soon as the files change
+    const previousDocuments = this.#editorStore.documents.get();
+    const previousUnsavedFiles = this.unsavedFiles.get();
+    const previousConflicts = this.conflicts.get();
+
+    await this.#filesStore.movePath(oldPath, newPath);
+
+    this.#editorStore.moveDocuments(previousDocuments, oldPath, newPath);
+
+    this.unsavedFiles.set(
+      new Set([...previousUnsavedFiles].map((filePath) => getMovedPath(filePath, oldPath, newPath))),
+    );
+
+    this.conflicts.set(
+      Object.fromEntries(
+        Object.entries(previousConflicts).map(([filePath, conflict]) => [
+          getMovedPath(filePath, oldPath, newPath),
+          conflict,
+        ]),
+      ),
+    );
+
+    const selectedFile = this.selectedFile.get();
+
+    if (selectedFile) {
+      this.setSelectedFile(getMovedPath(selectedFile, oldPath, newPath));
+    }
+  }
+
+  /**
+   * Returns the text files of the project except for lockfiles so that the model can read them with the
+   * file tools. Files are skipped once their total length exceeds `MAX_PROJECT_FILES_LENGTH`.
+   */
+  getProjectFiles() {
+    const projectFiles: ProjectFiles = {};
+
+    let totalLength = 0;
+
+    for (const [filePath, dirent] of Object.entries(this.files.get())) {
+      if (dirent?.type !== 'file' || dirent.isBinary || isLockFile(filePath)) {
+        continue;
+      }
+
+      if (totalLength + dirent.content.length > MAX_PROJECT_FILES_LENGTH) {
+        continue;
+      }
+
+      totalLength += dirent.content.length;
+      projectFiles[nodePath.relative(WORK_DIR, filePath)] = this.#envStore.maskSecrets(dirent.content);
+    }
+
+    return projectFiles;
+  }
+
   getFileModifcations() {
-    return this.#filesStore.getFileModifications();
+    const rejectedChanges = this.#stagingStore.getRejectedChanges();
+
+    const modifications =
+      Object.keys(rejectedChanges).length === 0
+        ? this.#filesStore.getFileModifications()
+        : { ...this.#filesStore.getFileModifications(), ...rejectedChanges };
+
+    if (!modifications) {
+      return undefined;
+    }
+
+    // the modifications are sent to the model together with the next message
+    return Object.fromEntries(
+      Object.entries(modifications).map(([filePath, modification]) => {
+        return [filePath, { ...modification, content: this.#envStore.maskSecrets(modification.content) }];
+      }),
+    );
   }
 
   resetAllFileModifications() {
     this.#filesStore.resetFileModifications();
+    this.#stagingStore.resetRejectedChanges();
   }
 
   abortAllActions() {
-    // TODO: what do we wanna do and how do we wanna recover from this?
+    for (const artifact of Object.values(this.artifacts.get())) {
+      artifact.runner.abortAll();
+    }
+
+    this.endStreaming();
   }
 
-  addArtifact({ messageId, title, id }: ArtifactCallbackData) {
-    const artifact = this.#getArtifact(messageId);
+  /**
+   * Replaces the partial content of files whose actions were never closed, e.g. because the response was
+   * aborted, failed or ended in the middle of an action.
+   */
+  endStreaming() {
+    this.#editorStore.endAllStreaming(this.files.get(), this.unsavedFiles.get(), this.#getKeptFiles());
+  }
+
+  addArtifact({ messageId, artifactIndex, title, id }: ArtifactCallbackData) {
+    const artifactKey = getArtifactKey(messageId, artifactIndex);
+    const artifact = this.#getArtifact(artifactKey);
 
     if (artifact) {
       return;
     }
 
-    if (!this.artifactIdList.includes(messageId)) {
-      this.artifactIdList.push(messageId);
+    if (!this.artifactIdList.includes(artifactKey)) {
+      this.artifactIdList.push(artifactKey);
     }
 
-    this.artifacts.setKey(messageId, {
+    this.artifacts.setKey(artifactKey, {
       id,
       title,
       closed: false,
-      runner: new ActionRunner(webcontainer),
+      runner: new ActionRunner(webcontainer, {
+        onError: (error) => this.#errorsStore.addError(error),
+        getShellPolicy: () => shellPolicyStore.get(),
+        getPathPolicy: () => pathPolicyStore.get(),
+        getEnv: () => this.#envStore.getEnv(),
+        maskSecrets: (text) => this.#envStore.maskSecrets(text),
+        onExecute: (execution, filePaths) => {
+          this.#filesStore.ignoreChangesDuring(
+            execution,
+            filePaths.map((filePath) => nodePath.join(WORK_DIR, filePath)),
+          );
+        },
+        getFileStaging: () => (this.#stagingStore.reviewMode.get() ? this.#stagingStore : undefined),
+        snapshot: this.snapshots.get()[artifactKey],
+        onSnapshotChange: (snapshot) => {
+          this.snapshots.setKey(artifactKey, Object.keys(snapshot).length > 0 ? snapshot : undefined);
+        },
+      }),
     });
   }
 
-  updateArtifact({ messageId }: ArtifactCallbackData, state: Partial<ArtifactUpdateState>) {
-    const artifact = this.#getArtifact(messageId);
+  /**
+   * Restores the project to the state before the given artifact by reverting its file changes and the
+   * changes of all artifacts after it. Actions of these artifacts that are still pending are aborted
+   * first so that they can't change the files again after the rollback.
+   */
+  async revertArtifact(artifactKey: string) {
+    const index = this.artifactIdList.indexOf(artifactKey);
+
+    if (index === -1) {
+      return;
+    }
+
+    const runners = this.artifactIdList
+      .slice(index)
+      .reverse()
+      .map((id) => this.#getArtifact(id)?.runner)
+      .filter((runner) => runner !== undefined);
+
+    for (const runner of runners) {
+      runner.abortAll();
+    }
+
+    for (const runner of runners) {
+      await runner.rollback();
+    }
+  }
+
+  /**
+   * Runs all actions of an artifact again. The files of the artifact are restored first, so this fails if
+   * a later artifact changed one of them because its changes would be lost.
+   */
+  async rerunArtifact(artifactKey: string) {
+    const artifact = this.#getArtifact(artifactKey);
+
+    if (!artifact) {
+      return;
+    }
+
+    const changedFiles = new Set(artifact.runner.getChangedFiles());
+
+    const laterChangedFiles = this.artifactIdList
+      .slice(this.artifactIdList.indexOf(artifactKey) + 1)
+      .flatMap((id) => this.#getArtifact(id)?.runner.getChangedFiles() ?? [])
+      .filter((filePath) => changedFiles.has(filePath));
+
+    if (laterChangedFiles.length > 0) {
+      throw new Error(
+        `Can't re-run the actions because later messages changed ${[...new Set(laterChangedFiles)].join(', ')}. Revert these changes first.`,
+      );
+    }
+
+    await artifact.runner.rerunAllActions();
+  }
+
+  updateArtifact({ messageId, artifactIndex }: ArtifactCallbackData, state: Partial<ArtifactUpdateState>) {
+    const artifactKey = getArtifactKey(messageId, artifactIndex);
+    const artifact = this.#getArtifact(artifactKey);
 
     if (!artifact) {
       return;
     }
 
-    this.artifacts.setKey(messageId, { ...artifact, ...state });
+    this.artifacts.setKey(artifactKey, { ...artifact, ...state });
   }
 
   async addAction(data: ActionCallbackData) {
-    const { messageId } = data;
+    const { messageId, artifactIndex } = data;
 
-    const artifact = this.#getArtifact(messageId);
+    const artifact = this.#getArtifact(getArtifactKey(messageId, artifactIndex));
 
     if (!artifact) {
       unreachable('Artifact not found');
@@ -258,10 +784,72 @@ export class WorkbenchStore {
     artifact.runner.addAction(data);
   }
 
+  /**
+   * Shows the content of a file action in the editor while it is being generated. The file is only
+   * written to the WebContainer once the action is complete.
+   */
+  streamAction(data: ActionCallbackData) {
+    const { action } = data;
+
+    if (action.type !== 'file') {
+      return;
+    }
+
+    const filePath = getEditorPath(action.filePath);
+
+    if (!filePath) {
+      // the action fails when it runs
+      return;
+    }
+
+    if (!this.reviewMode.get()) {
+      this.#detectConflict(filePath);
+    }
+
+    if (this.unsavedFiles.get().has(filePath)) {
+      // the unsaved changes of the user stay in the editor
+      return;
+    }
+
+    this.#editorStore.streamFile(filePath, action.content);
+
+    if (this.selectedFile.get() !== filePath) {
+      this.setSelectedFile(filePath);
+    }
+  }
+
   async runAction(data: ActionCallbackData) {
-    const { messageId } = data;
+    const { messageId, artifactIndex, action } = data;
 
-    const artifact = this.#getArtifact(messageId);
+    const filePath = action.type === 'file' || action.type === 'patch' ? getEditorPath(action.filePath) : undefined;
+
+    if (filePath) {
+      this.#editorStore.endStreaming(filePath);
+
+      if (!this.reviewMode.get()) {
+        this.#detectConflict(filePath);
+      }
+    }
+
+    // staged deletions and moves are checked for conflicts when they are accepted
+    if (!this.reviewMode.get() && action.type === 'delete') {
+      const path = getEditorPath(action.filePath);
+
+      if (path) {
+        this.#detectDeleteConflicts(path);
+      }
+    }
+
+    if (!this.reviewMode.get() && action.type === 'move') {
+      const oldPath = getEditorPath(action.filePath);
+      const newPath = getEditorPath(action.newFilePath);
+
+      if (oldPath && newPath) {
+        this.#trackMove(oldPath, newPath);
+      }
+    }
+
+    const artifact = this.#getArtifact(getArtifactKey(messageId, artifactIndex));
 
     if (!artifact) {
       unreachable('Artifact not found');
@@ -280,7 +868,7 @@ export class WorkbenchStore {
     const files = this.files.get();
 
     for (const [filePath, dirent] of Object.entries(files)) {
-      if (dirent?.type === 'file' && !dirent.isBinary) {
+      if (dirent?.type === 'file') {
         // remove '/home/project/' from the beginning of the path
         const relativePath = filePath.replace(/^\/home\/project\//, '');
 
@@ -294,10 +882,10 @@ export class WorkbenchStore {
           for (let i = 0; i < pathSegments.length - 1; i++) {
             currentFolder = currentFolder.folder(pathSegments[i])!;
           }
-          currentFolder.file(pathSegments[pathSegments.length - 1], dirent.content);
+          currentFolder.file(pathSegments[pathSegments.length - 1], getFileData(dirent));
         } else {
           // if there's only one segment, it's a file in the root
-          zip.file(relativePath, dirent.content);
+          zip.file(relativePath, getFileData(dirent));
         }
       }
     }
@@ -311,7 +899,7 @@ export class WorkbenchStore {
     const syncedFiles = [];
 
     for (const [filePath, dirent] of Object.entries(files)) {
-      if (dirent?.type === 'file' && !dirent.isBinary) {
+      if (dirent?.type === 'file') {
         const relativePath = filePath.replace(/^\/home\/project\//, '');
         const pathSegments = relativePath.split('/');
         let currentHandle = targetHandle;
@@ -325,7 +913,7 @@ export class WorkbenchStore {
 
         // write the file content
         const writable = await fileHandle.createWritable();
-        await writable.write(dirent.content);
+        await writable.write(getFileData(dirent));
         await writable.close();
 
         syncedFiles.push(relativePath);
@@ -378,11 +966,11 @@ export class WorkbenchStore {
       // Create blobs for each file
       const blobs = await Promise.all(
         Object.entries(files).map(async ([filePath, dirent]) => {
-          if (dirent?.type === 'file' && dirent.content) {
+          if (dirent?.type === 'file' && (dirent.content || dirent.data?.byteLength)) {
             const { data: blob } = await octokit.git.createBlob({
               owner: repo.owner.login,
               repo: repo.name,
-              content: Buffer.from(dirent.content).toString('base64'),
+              content: Buffer.from(getFileData(dirent)).toString('base64'),
               encoding: 'base64',
             });
             return { path: filePath.replace(/^\/home\/project\//, ''), sha: blob.sha };
@@ -442,3 +1030,15 @@ export class WorkbenchStore {
 }
 
 export const workbenchStore = new WorkbenchStore();
+
+/**
+ * Returns the absolute path of a file given by the model or `undefined` if it's outside of the work
+ * directory.
+ */
+function getEditorPath(filePath: string) {
+  try {
+    return nodePath.join(WORK_DIR, validateFilePath(filePath));
+  } catch {
+    return undefined;
+  }
+}
@@ -22,7 +22,7 @@ if (!import.meta.env.SSR) {
     import.meta.hot?.data.webcontainer ??
     Promise.resolve()
       .then(() => {
-        return WebContainer.boot({ workdirName: WORK_DIR_NAME });
+        return WebContainer.boot({ workdirName: WORK_DIR_NAME, forwardPreviewErrors: 'exceptions-only' });
       })
       .then((webcontainer) => {
         webcontainerContext.loaded = true;
@@ -3,19 +3,24 @@
 import { type ActionFunctionArgs } from '@remix-run/cloudflare';
 import { MAX_RESPONSE_SEGMENTS, MAX_TOKENS } from '~/lib/.server/llm/constants';
 import { CONTINUE_PROMPT } from '~/lib/.server/llm/prompts';
-import { streamText, type Messages, type StreamingOptions } from '~/lib/.server/llm/stream-text';
+import { streamText, type Messages, type StreamingOptions, type ToolOptions } from '~/lib/.server/llm/stream-text';
 import SwitchableStream from '~/lib/.server/llm/switchable-stream';
+import type { ProjectFiles } from '~/types/files';
 
 export async function action(args: ActionFunctionArgs) {
   return chatAction(args);
 }
 
 async function chatAction({ context, request }: ActionFunctionArgs) {
-  const { messages, apiKeys } = await request.json<{ 
+  const { messages, apiKeys, toolCalling, files } = await request.json<{ 
     messages: Messages,
-    apiKeys: Record<string, string>
+    apiKeys: Record<string, string>;
+    toolCalling?: boolean;
+    files?: ProjectFiles;
   }>();
 
+  const toolOptions: ToolOptions = { actions: toolCalling, files };
+
   const stream = new SwitchableStream();
 
   try {
@@ -38,13 +43,13 @@ async function chatAction({ context, request }: ActionFunctionArgs) {
         messages.push({ role: 'assistant', content });
         messages.push({ role: 'user', content: CONTINUE_PROMPT });
 
-        const result = await streamText(messages, context.cloudflare.env, options);
+        const result = await streamText(messages, context.cloudflare.env, options, apiKeys, toolOptions);
 
         return stream.switchSource(result.toAIStream());
       },
     };
 
-    const result = await streamText(messages, context.cloudflare.env, options, apiKeys);
+    const result = await streamText(messages, context.cloudflare.env, options, apiKeys, toolOptions);
 
     stream.switchSource(result.toAIStream());
 
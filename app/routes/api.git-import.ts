@@ -0,0 +1,30 @@
+import { type LoaderFunctionArgs } from '@remix-run/cloudflare';
+import { fetchRepositoryArchive, RepositoryArchiveError } from '~/lib/.server/git/archive';
+import { parseGitRepositoryUrl } from '~/lib/import';
+
+export async function loader({ request }: LoaderFunctionArgs) {
+  const url = new URL(request.url).searchParams.get('url') ?? '';
+  const repository = parseGitRepositoryUrl(url);
+
+  if (!repository) {
+    return new Response('Invalid GitHub repository URL', { status: 400 });
+  }
+
+  try {
+    const archive = await fetchRepositoryArchive(repository);
+
+    return new Response(archive, {
+      headers: {
+        'Content-Type': 'application/zip',
+      },
+    });
+  } catch (error) {
+    if (error instanceof RepositoryArchiveError) {
+      return new Response(error.message, { status: error.status });
+    }
+
+    console.log(error);
+
+    return new Response('Failed to download the repository', { status: 500 });
+  }
+}
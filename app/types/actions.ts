@@ -1,5 +1,3 @@
-export type ActionType = 'file' | 'shell';
-
 export interface BaseAction {
   content: string;
 }
@@ -13,6 +11,49 @@ export interface ShellAction extends BaseAction {
   type: 'shell';
 }
 
-export type BoltAction = FileAction | ShellAction;
+export interface StartAction extends BaseAction {
+  type: 'start';
+}
+
+export interface PatchAction extends BaseAction {
+  type: 'patch';
+  filePath: string;
+}
+
+export interface DeleteAction extends BaseAction {
+  type: 'delete';
+  filePath: string;
+}
+
+export interface MoveAction extends BaseAction {
+  type: 'move';
+  filePath: string;
+  newFilePath: string;
+}
+
+/**
+ * Actions keyed by their type. Custom actions that are added to the action registry extend this
+ * interface with module augmentation:
+ *
+ * ```ts
+ * declare module '~/types/actions' {
+ *   interface ActionTypeMap {
+ *     'open-url': OpenUrlAction;
+ *   }
+ * }
+ * ```
+ */
+export interface ActionTypeMap {
+  file: FileAction;
+  shell: ShellAction;
+  start: StartAction;
+  patch: PatchAction;
+  delete: DeleteAction;
+  move: MoveAction;
+}
+
+export type ActionType = keyof ActionTypeMap;
+
+export type BoltAction = ActionTypeMap[ActionType];
 
 export type BoltActionData = BoltAction | BaseAction;
@@ -0,0 +1,11 @@
+export interface ProjectEnvironment {
+  /**
+   * Values of the environment variables keyed by their name.
+   */
+  variables: Record<string, string>;
+
+  /**
+   * Whether the variables are also written to a `.env` file that is ignored by git.
+   */
+  writeDotEnv: boolean;
+}
@@ -0,0 +1,10 @@
+export type RuntimeErrorSource = 'action' | 'terminal' | 'preview';
+
+export interface RuntimeError {
+  id: string;
+  source: RuntimeErrorSource;
+  title: string;
+  details: string;
+}
+
+export type RuntimeErrorData = Omit<RuntimeError, 'id'>;
@@ -0,0 +1,4 @@
+/**
+ * Content of the text files of the project keyed by their path relative to the work directory.
+ */
+export type ProjectFiles = Record<string, string>;
@@ -8,6 +8,21 @@ export const PROVIDER_REGEX = /\[Provider: (.*?)\]\n\n/;
 export const DEFAULT_MODEL = 'claude-3-5-sonnet-latest';
 export const DEFAULT_PROVIDER = 'Anthropic';
 
+/**
+ * Providers whose models support function calling. Other providers use action tags and get no file tools,
+ * so the files of the project are only sent to these providers.
+ */
+export const TOOL_CALLING_PROVIDERS = [
+  'Anthropic',
+  'OpenAI',
+  'Google',
+  'Mistral',
+  'Groq',
+  'OpenRouter',
+  'Deepseek',
+  'xAI',
+];
+
 const staticModels: ModelInfo[] = [
   { name: 'gpt-4o', label: 'GPT-4o', provider: 'OpenAI' },
   { name: 'anthropic/claude-3.5-sonnet', label: 'Anthropic: Claude 3.5 Sonnet (OpenRouter)', provider: 'OpenRouter' },
@@ -0,0 +1,65 @@
+import { describe, expect, it } from 'vitest';
+import type { FileMap } from '~/lib/stores/files';
+import { computeFileModifications, fileModificationsToHTML } from './diff';
+
+const files: FileMap = {
+  '/home/project/src': { type: 'folder' },
+  '/home/project/src/index.js': { type: 'file', content: 'const a = 2;\nconsole.log(a);\n', isBinary: false },
+  '/home/project/src/new.js': { type: 'file', content: 'export {};\n', isBinary: false },
+  '/home/project/logo.png': { type: 'file', content: '', isBinary: true },
+  '/home/project/package-lock.json': { type: 'file', content: '{}\n', isBinary: false },
+};
+
+describe('computeFileModifications', () => {
+  it('should report changed, created and deleted files', () => {
+    const modifications = computeFileModifications(
+      files,
+      new Map([
+        ['/home/project/src/index.js', 'const a = 1;\nconsole.log(a);\n'],
+        ['/home/project/src/new.js', null],
+        ['/home/project/src/old.js', 'old\n'],
+      ]),
+    );
+
+    expect(modifications).toEqual({
+      // the diff is longer than the small file
+      '/home/project/src/index.js': { type: 'file', content: 'const a = 2;\nconsole.log(a);\n' },
+      '/home/project/src/new.js': { type: 'created', content: 'export {};\n' },
+      '/home/project/src/old.js': { type: 'deleted', content: '' },
+    });
+  });
+
+  it('should ignore unchanged, binary and lock files', () => {
+    const modifications = computeFileModifications(
+      files,
+      new Map<string, string | null>([
+        ['/home/project/src/index.js', 'const a = 2;\nconsole.log(a);\n'],
+        ['/home/project/logo.png', null],
+        ['/home/project/package-lock.json', ''],
+        ['/home/project/tmp.txt', null],
+      ]),
+    );
+
+    expect(modifications).toBeUndefined();
+  });
+});
+
+describe('fileModificationsToHTML', () => {
+  it('should write deleted files as empty elements', () => {
+    const html = fileModificationsToHTML({
+      '/home/project/new.js': { type: 'created', content: 'export {};' },
+      '/home/project/old.js': { type: 'deleted', content: '' },
+    });
+
+    expect(html).toBe(
+      [
+        '<bolt_file_modifications>',
+        '<created path="/home/project/new.js">',
+        'export {};',
+        '</created>',
+        '<deleted path="/home/project/old.js" />',
+        '</bolt_file_modifications>',
+      ].join('\n'),
+    );
+  });
+});
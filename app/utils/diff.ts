@@ -7,14 +7,28 @@ export const modificationsRegex = new RegExp(
   'g',
 );
 
+// lockfiles change with every install and are too large to be useful for the model
+const LOCK_FILES = new Set(['package-lock.json', 'pnpm-lock.yaml', 'yarn.lock']);
+
+export function isLockFile(filePath: string) {
+  return LOCK_FILES.has(filePath.split('/').at(-1) ?? '');
+}
+
 interface ModifiedFile {
-  type: 'diff' | 'file';
+  /**
+   * `rejected` contains the diff of a change proposed by the model that the user rejected in review mode.
+   * `created` contains the content of a new file and `deleted` has no content.
+   */
+  type: 'diff' | 'file' | 'rejected' | 'created' | 'deleted';
   content: string;
 }
 
-type FileModifications = Record<string, ModifiedFile>;
+export type FileModifications = Record<string, ModifiedFile>;
 
-export function computeFileModifications(files: FileMap, modifiedFiles: Map<string, string>) {
+/**
+ * @param modifiedFiles Content of the modified files before the changes or `null` if they were created.
+ */
+export function computeFileModifications(files: FileMap, modifiedFiles: Map<string, string | null>) {
   const modifications: FileModifications = {};
 
   let hasModifiedFiles = false;
@@ -22,7 +36,27 @@ export function computeFileModifications(files: FileMap, modifiedFiles: Map<stri
   for (const [filePath, originalContent] of modifiedFiles) {
     const file = files[filePath];
 
+    if (isLockFile(filePath)) {
+      continue;
+    }
+
     if (file?.type !== 'file') {
+      if (originalContent !== null) {
+        hasModifiedFiles = true;
+        modifications[filePath] = { type: 'deleted', content: '' };
+      }
+
+      continue;
+    }
+
+    if (file.isBinary) {
+      continue;
+    }
+
+    if (originalContent === null) {
+      hasModifiedFiles = true;
+      modifications[filePath] = { type: 'created', content: file.content };
+
       continue;
     }
 
@@ -86,6 +120,7 @@ export function diffFiles(fileName: string, oldFileContent: string, newFileConte
  * - console.log('Hello, World!');
  * + console.log('Hello, Bolt!');
  * </diff>
+ * <deleted path="/home/project/old.js" />
  * </bolt_file_modifications>
  * ```
  */
@@ -99,7 +134,11 @@ export function fileModificationsToHTML(modifications: FileModifications) {
   const result: string[] = [`<${MODIFICATIONS_TAG_NAME}>`];
 
   for (const [filePath, { type, content }] of entries) {
-    result.push(`<${type} path=${JSON.stringify(filePath)}>`, content, `</${type}>`);
+    if (type === 'deleted') {
+      result.push(`<${type} path=${JSON.stringify(filePath)} />`);
+    } else {
+      result.push(`<${type} path=${JSON.stringify(filePath)}>`, content, `</${type}>`);
+    }
   }
 
   result.push(`</${MODIFICATIONS_TAG_NAME}>`);
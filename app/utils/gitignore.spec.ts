@@ -0,0 +1,57 @@
+import { describe, expect, it } from 'vitest';
+import { isIgnored, isPathIgnored, parseGitignore } from './gitignore';
+
+describe('parseGitignore', () => {
+  it('should match names in any folder', () => {
+    const rules = parseGitignore('# build output\n*.log\ndist/\n');
+
+    expect(isIgnored(rules, 'debug.log', false)).toBe(true);
+    expect(isIgnored(rules, 'logs/debug.log', false)).toBe(true);
+    expect(isIgnored(rules, 'packages/app/dist', true)).toBe(true);
+    expect(isIgnored(rules, 'dist', false)).toBe(false);
+    expect(isIgnored(rules, 'src/index.js', false)).toBe(false);
+  });
+
+  it('should anchor patterns with a slash', () => {
+    const rules = parseGitignore('/build\ndocs/*.md\n');
+
+    expect(isIgnored(rules, 'build', true)).toBe(true);
+    expect(isIgnored(rules, 'src/build', true)).toBe(false);
+    expect(isIgnored(rules, 'docs/readme.md', false)).toBe(true);
+    expect(isIgnored(rules, 'docs/api/readme.md', false)).toBe(false);
+  });
+
+  it('should support double asterisks', () => {
+    const rules = parseGitignore('**/cache/**\nlogs/**/*.txt\n');
+
+    expect(isIgnored(rules, 'cache/data.json', false)).toBe(true);
+    expect(isIgnored(rules, 'a/b/cache/data.json', false)).toBe(true);
+    expect(isIgnored(rules, 'logs/out.txt', false)).toBe(true);
+    expect(isIgnored(rules, 'logs/2024/01/out.txt', false)).toBe(true);
+  });
+
+  it('should re-include negated patterns', () => {
+    const rules = parseGitignore('.env*\n!.env.example\n');
+
+    expect(isIgnored(rules, '.env.local', false)).toBe(true);
+    expect(isIgnored(rules, '.env.example', false)).toBe(false);
+  });
+
+  it('should apply rules of nested files relative to their folder', () => {
+    const rules = [...parseGitignore('*.tmp\n'), ...parseGitignore('/generated\n!keep.tmp\n', 'packages/app')];
+
+    expect(isIgnored(rules, 'packages/app/generated', true)).toBe(true);
+    expect(isIgnored(rules, 'generated', true)).toBe(false);
+    expect(isIgnored(rules, 'packages/app/keep.tmp', false)).toBe(false);
+    expect(isIgnored(rules, 'packages/other/keep.tmp', false)).toBe(true);
+  });
+});
+
+describe('isPathIgnored', () => {
+  it('should ignore files in ignored folders', () => {
+    const rules = parseGitignore('coverage/\n');
+
+    expect(isPathIgnored(rules, 'coverage/lcov/index.html')).toBe(true);
+    expect(isPathIgnored(rules, 'src/coverage.ts')).toBe(false);
+  });
+});
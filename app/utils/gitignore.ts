@@ -0,0 +1,132 @@
+export interface IgnoreRule {
+  /**
+   * Folder of the `.gitignore` file that the rule comes from, relative to the root of the project.
+   */
+  base: string;
+  regex: RegExp;
+  negated: boolean;
+  directoryOnly: boolean;
+}
+
+/**
+ * Parses the rules of a `.gitignore` file. Supports comments, negations, anchored patterns, patterns for
+ * folders only and the wildcards `*`, `?` and `**`.
+ *
+ * @param base The folder of the `.gitignore` file relative to the root of the project.
+ */
+export function parseGitignore(content: string, base = ''): IgnoreRule[] {
+  const rules: IgnoreRule[] = [];
+
+  for (const rawLine of content.split(/\r?\n/)) {
+    let pattern = rawLine.trimEnd();
+
+    if (!pattern || pattern.startsWith('#')) {
+      continue;
+    }
+
+    const negated = pattern.startsWith('!');
+
+    if (negated) {
+      pattern = pattern.slice(1);
+    }
+
+    const directoryOnly = pattern.endsWith('/');
+
+    pattern = pattern.replace(/\/+$/, '');
+
+    // a slash at the beginning or in the middle anchors the pattern to the folder of the `.gitignore` file
+    const anchored = pattern.includes('/');
+
+    pattern = pattern.replace(/^\/+/, '');
+
+    if (!pattern) {
+      continue;
+    }
+
+    const source = patternToRegExpSource(pattern);
+
+    rules.push({
+      base,
+      regex: new RegExp(anchored ? `^${source}$` : `^(?:.*/)?${source}$`),
+      negated,
+      directoryOnly,
+    });
+  }
+
+  return rules;
+}
+
+/**
+ * Checks whether a path relative to the root of the project is ignored. The parent folders of the path
+ * have to be checked separately, use `isPathIgnored` if they weren't.
+ */
+export function isIgnored(rules: IgnoreRule[], path: string, isDirectory: boolean) {
+  let ignored = false;
+
+  // later rules and rules of nested `.gitignore` files take precedence
+  for (const rule of rules) {
+    if (rule.directoryOnly && !isDirectory) {
+      continue;
+    }
+
+    if (rule.base && !path.startsWith(`${rule.base}/`)) {
+      continue;
+    }
+
+    const relativePath = rule.base ? path.slice(rule.base.length + 1) : path;
+
+    if (rule.regex.test(relativePath)) {
+      ignored = !rule.negated;
+    }
+  }
+
+  return ignored;
+}
+
+/**
+ * Checks whether a file is ignored itself or because one of its parent folders is ignored.
+ */
+export function isPathIgnored(rules: IgnoreRule[], filePath: string) {
+  const segments = filePath.split('/');
+
+  for (let i = 1; i < segments.length; i++) {
+    if (isIgnored(rules, segments.slice(0, i).join('/'), true)) {
+      return true;
+    }
+  }
+
+  return isIgnored(rules, filePath, false);
+}
+
+function patternToRegExpSource(pattern: string) {
+  let source = '';
+
+  for (let i = 0; i < pattern.length; i++) {
+    const char = pattern[i];
+
+    if (char === '*' && pattern[i + 1] === '*') {
+      if (pattern[i + 2] === '/') {
+        // `**/` matches any number of folders including none
+        source += '(?:.*/)?';
+        i += 2;
+      } else {
+        source += '.*';
+        i += 1;
+      }
+    } else if (char === '*') {
+      source += '[^/]*';
+    } else if (char === '?') {
+      source += '[^/]';
+    } else if (char === '\\' && i + 1 < pattern.length) {
+      source += escapeRegExp(pattern[++i]);
+    } else {
+      source += escapeRegExp(char);
+    }
+  }
+
+  return source;
+}
+
+function escapeRegExp(text: string) {
+  return text.replace(/[.+?^${}()|[\]\\*]/g, '\\$&');
+}
@@ -0,0 +1,46 @@
+import { describe, expect, it } from 'vitest';
+import { mergeThreeWay } from './merge';
+
+const base = 'one\ntwo\nthree\nfour\nfive\n';
+
+describe('mergeThreeWay', () => {
+  it('should combine changes to different lines', () => {
+    const ours = 'ONE\ntwo\nthree\nfour\nfive\n';
+    const theirs = 'one\ntwo\nthree\nfour\nFIVE\nsix\n';
+
+    expect(mergeThreeWay(base, ours, theirs)).toEqual({ content: 'ONE\ntwo\nthree\nfour\nFIVE\nsix\n', conflicts: 0 });
+  });
+
+  it('should take changes that only one side made', () => {
+    const theirs = 'one\nthree\nfour\nfive\n';
+
+    expect(mergeThreeWay(base, base, theirs)).toEqual({ content: theirs, conflicts: 0 });
+    expect(mergeThreeWay(base, theirs, base)).toEqual({ content: theirs, conflicts: 0 });
+  });
+
+  it('should not conflict if both sides made the same change', () => {
+    const changed = 'one\ntwo\n3\nfour\nfive\n';
+
+    expect(mergeThreeWay(base, changed, changed)).toEqual({ content: changed, conflicts: 0 });
+  });
+
+  it('should mark conflicting changes', () => {
+    const ours = 'one\ntwo\nmine\nfour\nfive\n';
+    const theirs = 'one\ntwo\nyours\nfour\nfive';
+
+    expect(mergeThreeWay(base, ours, theirs)).toEqual({
+      content: 'one\ntwo\n<<<<<<< Your changes\nmine\n=======\nyours\n>>>>>>> AI changes\nfour\nfive',
+      conflicts: 1,
+    });
+  });
+
+  it('should mark insertions at the same place as conflicts', () => {
+    const ours = `${base}mine\n`;
+    const theirs = `${base}yours\n`;
+
+    expect(mergeThreeWay(base, ours, theirs)).toEqual({
+      content: `${base}<<<<<<< Your changes\nmine\n=======\nyours\n>>>>>>> AI changes\n`,
+      conflicts: 1,
+    });
+  });
+});
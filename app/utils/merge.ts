@@ -0,0 +1,156 @@
+import { diffArrays } from 'diff';
+
+export const CONFLICT_MARKER_OURS = '<<<<<<< Your changes';
+export const CONFLICT_MARKER_SEPARATOR = '=======';
+export const CONFLICT_MARKER_THEIRS = '>>>>>>> AI changes';
+
+interface Hunk {
+  /**
+   * Range of base lines that are replaced, `baseStart === baseEnd` for insertions.
+   */
+  baseStart: number;
+  baseEnd: number;
+  lines: string[];
+  side: 'ours' | 'theirs';
+}
+
+export interface MergeResult {
+  content: string;
+
+  /**
+   * Number of places where both versions changed the same lines. They are marked with conflict markers
+   * like in git.
+   */
+  conflicts: number;
+}
+
+/**
+ * Merges the changes of two versions of a file that are based on the same content line by line.
+ */
+export function mergeThreeWay(base: string, ours: string, theirs: string): MergeResult {
+  const baseLines = splitLines(base);
+
+  const hunks = [
+    ...getHunks(baseLines, splitLines(ours), 'ours'),
+    ...getHunks(baseLines, splitLines(theirs), 'theirs'),
+  ];
+
+  hunks.sort((a, b) => a.baseStart - b.baseStart || a.baseEnd - b.baseEnd);
+
+  const result: string[] = [];
+
+  let conflicts = 0;
+  let baseIndex = 0;
+  let i = 0;
+
+  while (i < hunks.length) {
+    // changes that touch the same or adjacent lines are merged as a group like in git
+    const group = [hunks[i]];
+
+    let start = hunks[i].baseStart;
+    let end = hunks[i].baseEnd;
+
+    i++;
+
+    while (i < hunks.length && hunks[i].baseStart <= end) {
+      group.push(hunks[i]);
+      start = Math.min(start, hunks[i].baseStart);
+      end = Math.max(end, hunks[i].baseEnd);
+      i++;
+    }
+
+    result.push(...baseLines.slice(baseIndex, start));
+
+    const ourHunks = group.filter((hunk) => hunk.side === 'ours');
+    const theirHunks = group.filter((hunk) => hunk.side === 'theirs');
+
+    const ourLines = applyHunks(baseLines, start, end, ourHunks);
+    const theirLines = applyHunks(baseLines, start, end, theirHunks);
+
+    if (theirHunks.length === 0 || ourLines.join('') === theirLines.join('')) {
+      result.push(...ourLines);
+    } else if (ourHunks.length === 0) {
+      result.push(...theirLines);
+    } else {
+      conflicts++;
+
+      result.push(
+        `${CONFLICT_MARKER_OURS}\n`,
+        ...withTrailingNewline(ourLines),
+        `${CONFLICT_MARKER_SEPARATOR}\n`,
+        ...withTrailingNewline(theirLines),
+        `${CONFLICT_MARKER_THEIRS}\n`,
+      );
+    }
+
+    baseIndex = end;
+  }
+
+  result.push(...baseLines.slice(baseIndex));
+
+  return { content: result.join(''), conflicts };
+}
+
+/**
+ * Splits content into lines that keep their line break, so that joining them restores the content.
+ */
+function splitLines(content: string) {
+  return content.split(/(?<=\n)/).filter((line) => line !== '');
+}
+
+function getHunks(baseLines: string[], lines: string[], side: Hunk['side']) {
+  const hunks: Hunk[] = [];
+
+  let baseIndex = 0;
+  let hunk: Hunk | undefined;
+
+  for (const change of diffArrays(baseLines, lines)) {
+    if (!change.added && !change.removed) {
+      hunk = undefined;
+      baseIndex += change.value.length;
+
+      continue;
+    }
+
+    if (!hunk) {
+      hunk = { baseStart: baseIndex, baseEnd: baseIndex, lines: [], side };
+      hunks.push(hunk);
+    }
+
+    if (change.removed) {
+      baseIndex += change.value.length;
+      hunk.baseEnd = baseIndex;
+    } else {
+      hunk.lines.push(...change.value);
+    }
+  }
+
+  return hunks;
+}
+
+/**
+ * Returns the lines of a version between the given base lines.
+ */
+function applyHunks(baseLines: string[], start: number, end: number, hunks: Hunk[]) {
+  const lines: string[] = [];
+
+  let baseIndex = start;
+
+  for (const hunk of hunks) {
+    lines.push(...baseLines.slice(baseIndex, hunk.baseStart), ...hunk.lines);
+    baseIndex = hunk.baseEnd;
+  }
+
+  lines.push(...baseLines.slice(baseIndex, end));
+
+  return lines;
+}
+
+// the last line of a file may have no line break, but conflict markers have to start on a new line
+function withTrailingNewline(lines: string[]) {
+  if (lines.length === 0 || lines[lines.length - 1].endsWith('\n')) {
+    return lines;
+  }
+
+  return [...lines.slice(0, -1), `${lines[lines.length - 1]}\n`];
+}
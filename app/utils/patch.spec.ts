@@ -0,0 +1,86 @@
+import { describe, expect, it } from 'vitest';
+import { applyPatch, parsePatch, PatchError } from './patch';
+
+const source = ['function add(a, b) {', '  return a + b;', '}', '', "console.log('Hello, World!');", ''].join('\n');
+
+describe('parsePatch', () => {
+  it('should ignore file headers and hunk line counts', () => {
+    const hunks = parsePatch(['--- index.js', '+++ index.js', '@@ -5,9 +5,9 @@', '-foo', '+bar'].join('\n'));
+
+    expect(hunks).toEqual([{ header: '@@ -5,9 +5,9 @@', oldStart: 5, lines: ['-foo', '+bar'] }]);
+  });
+
+  it('should accept hunk headers without line numbers', () => {
+    expect(parsePatch('@@ @@\n-foo\n+bar')).toEqual([
+      { header: '@@ @@', oldStart: undefined, lines: ['-foo', '+bar'] },
+    ]);
+  });
+});
+
+describe('applyPatch', () => {
+  it('should apply an exact patch', () => {
+    const patch = ['@@ -4,2 +4,2 @@', ' ', "-console.log('Hello, World!');", "+console.log('Hello, Bolt!');"].join(
+      '\n',
+    );
+
+    expect(applyPatch(source, patch)).toBe(source.replace('World', 'Bolt'));
+  });
+
+  it('should locate hunks when the line numbers are off', () => {
+    const patch = ['@@ -40,2 +40,2 @@', ' }', '-', '+// greeting'].join('\n');
+
+    expect(applyPatch(source, patch)).toBe(source.replace('}\n\n', '}\n// greeting\n'));
+  });
+
+  it('should ignore whitespace differences and keep the original context', () => {
+    const patch = ['@@ -1,3 +1,3 @@', ' function add(a, b) {', '-    return a + b;', '+  return a + b + 0;', ' }'].join(
+      '\n',
+    );
+
+    expect(applyPatch(source, patch)).toBe(source.replace('a + b;', 'a + b + 0;'));
+  });
+
+  it('should tolerate mismatching context lines', () => {
+    const patch = [
+      '@@ -1,5 +1,5 @@',
+      ' function sum(a, b) {',
+      '-  return a + b;',
+      '+  return b + a;',
+      ' }',
+      ' ',
+      " console.log('Hello, World!');",
+    ].join('\n');
+
+    expect(applyPatch(source, patch)).toBe(source.replace('a + b;', 'b + a;'));
+  });
+
+  it('should apply multiple hunks in order', () => {
+    const patch = [
+      '@@ -1,1 +1,1 @@',
+      '-function add(a, b) {',
+      '+function sum(a, b) {',
+      '@@ -5,1 +5,1 @@',
+      "-console.log('Hello, World!');",
+      '+console.log(sum(1, 2));',
+    ].join('\n');
+
+    expect(applyPatch(source, patch)).toBe(
+      source.replace('function add', 'function sum').replace("'Hello, World!'", 'sum(1, 2)'),
+    );
+  });
+
+  it('should insert lines after the line given in the header', () => {
+    expect(applyPatch('a\nb\n', '@@ -1,0 +2,1 @@\n+c')).toBe('a\nc\nb\n');
+  });
+
+  it('should throw if a removed line cannot be found', () => {
+    const patch = ['@@ -2,1 +2,1 @@', '-  return a - b;', '+  return a * b;'].join('\n');
+
+    expect(() => applyPatch(source, patch)).toThrow(PatchError);
+    expect(() => applyPatch(source, patch)).toThrow(/Hunk #1/);
+  });
+
+  it('should throw if the patch has no hunks', () => {
+    expect(() => applyPatch(source, 'not a patch')).toThrow('Patch does not contain any hunks');
+  });
+});
@@ -0,0 +1,255 @@
+/**
+ * Maximum number of context lines that may differ from the file before a hunk is rejected. Hunks
+ * with less context are allowed fewer mismatches, see `findHunk`.
+ */
+const MAX_FUZZ = 2;
+
+const HUNK_HEADER_REGEX = /^@@\s*(?:-(\d+)(?:,(\d+))?\s+\+(\d+)(?:,(\d+))?\s*)?@@/;
+
+export interface PatchHunk {
+  header: string;
+
+  /**
+   * 1-based line in the original file where the hunk starts or `undefined` if the header omitted it.
+   */
+  oldStart?: number;
+  lines: string[];
+}
+
+export class PatchError extends Error {
+  constructor(
+    message: string,
+    readonly hunk?: PatchHunk,
+  ) {
+    super(message);
+    this.name = 'PatchError';
+  }
+}
+
+/**
+ * Parses a unified diff in the same format as `diffFiles` produces, i.e. without the file header. The
+ * parser is lenient because models often get the line counts in the hunk headers wrong, so we ignore
+ * them and only use the lines themselves.
+ */
+export function parsePatch(patch: string): PatchHunk[] {
+  const hunks: PatchHunk[] = [];
+
+  let currentHunk: PatchHunk | undefined;
+
+  for (const line of patch.replace(/\r\n/g, '\n').split('\n')) {
+    const header = HUNK_HEADER_REGEX.exec(line);
+
+    if (header) {
+      currentHunk = {
+        header: line,
+        oldStart: header[1] !== undefined ? Number(header[1]) : undefined,
+        lines: [],
+      };
+
+      hunks.push(currentHunk);
+
+      continue;
+    }
+
+    if (!currentHunk) {
+      // skip anything before the first hunk, e.g. `---` and `+++` file headers
+      continue;
+    }
+
+    if (line.startsWith('\\')) {
+      // `\ No newline at end of file`
+      continue;
+    }
+
+    if (line === '') {
+      // some models drop the leading space of empty context lines
+      currentHunk.lines.push(' ');
+    } else if (line[0] === ' ' || line[0] === '+' || line[0] === '-') {
+      currentHunk.lines.push(line);
+    } else {
+      currentHunk = undefined;
+    }
+  }
+
+  // trailing empty context lines are most likely the result of a trailing newline in the patch
+  for (const hunk of hunks) {
+    while (hunk.lines.length > 0 && hunk.lines[hunk.lines.length - 1] === ' ') {
+      hunk.lines.pop();
+    }
+  }
+
+  return hunks.filter((hunk) => hunk.lines.length > 0);
+}
+
+/**
+ * Applies a unified diff to the given content. Hunks are located near the line given in their header,
+ * first by an exact match, then ignoring whitespace and finally allowing up to `MAX_FUZZ` context lines
+ * to differ.
+ *
+ * @throws {PatchError} If the patch is empty or a hunk cannot be located in the content.
+ */
+export function applyPatch(content: string, patch: string) {
+  const hunks = parsePatch(patch);
+
+  if (hunks.length === 0) {
+    throw new PatchError('Patch does not contain any hunks');
+  }
+
+  const lines = content.split('\n');
+
+  /**
+   * Difference between the line numbers of the original file and the patched file so far which we
+   * need to adjust the expected position of all following hunks.
+   */
+  let offset = 0;
+
+  // hunks must be applied in order, so a hunk can never match before the end of the previous one
+  let minIndex = 0;
+
+  for (const [index, hunk] of hunks.entries()) {
+    const oldLines: string[] = [];
+    const newLines: string[] = [];
+    const contextMask: boolean[] = [];
+
+    for (const line of hunk.lines) {
+      const text = line.slice(1);
+
+      if (line[0] !== '+') {
+        oldLines.push(text);
+        contextMask.push(line[0] === ' ');
+      }
+
+      if (line[0] !== '-') {
+        newLines.push(text);
+      }
+    }
+
+    const expectedIndex = Math.max(minIndex, (hunk.oldStart ?? 1) - 1 + offset);
+
+    let position: number | undefined;
+
+    if (oldLines.length === 0) {
+      // a pure insertion only has the header to go by, `-X,0` means the lines are inserted after line X
+      position = Math.min(Math.max(minIndex, (hunk.oldStart ?? lines.length) + offset), lines.length);
+    } else {
+      position = findHunk(lines, oldLines, contextMask, expectedIndex, minIndex);
+    }
+
+    if (position === undefined) {
+      throw new PatchError(`Hunk #${index + 1} (${hunk.header}) does not match the current file content`, hunk);
+    }
+
+    const replacedLines = lines.slice(position, position + oldLines.length);
+
+    // keep the original version of context lines so that whitespace-only differences are not lost
+    const mergedLines = mergeContextLines(hunk.lines, replacedLines);
+
+    lines.splice(position, oldLines.length, ...mergedLines);
+
+    offset += newLines.length - oldLines.length;
+    minIndex = position + newLines.length;
+  }
+
+  return lines.join('\n');
+}
+
+type LineComparator = (a: string, b: string) => boolean;
+
+const comparators: LineComparator[] = [
+  (a, b) => a === b,
+  (a, b) => a.trimEnd() === b.trimEnd(),
+  (a, b) => a.replace(/\s+/g, '') === b.replace(/\s+/g, ''),
+];
+
+function findHunk(
+  lines: string[],
+  oldLines: string[],
+  contextMask: boolean[],
+  expectedIndex: number,
+  minIndex: number,
+) {
+  const maxIndex = lines.length - oldLines.length;
+
+  if (maxIndex < minIndex) {
+    return undefined;
+  }
+
+  const start = Math.min(Math.max(expectedIndex, minIndex), maxIndex);
+
+  // hunks with little context could match almost anywhere if we allowed too many mismatches
+  const contextLines = contextMask.filter(Boolean).length;
+  const maxFuzz = Math.min(MAX_FUZZ, Math.floor(contextLines / 3));
+
+  for (let fuzz = 0; fuzz <= maxFuzz; fuzz++) {
+    for (const compare of comparators) {
+      for (const index of distanceIterator(start, minIndex, maxIndex)) {
+        if (matchesAt(lines, index, oldLines, contextMask, compare, fuzz)) {
+          return index;
+        }
+      }
+    }
+  }
+
+  return undefined;
+}
+
+function matchesAt(
+  lines: string[],
+  index: number,
+  oldLines: string[],
+  contextMask: boolean[],
+  compare: LineComparator,
+  fuzz: number,
+) {
+  let mismatches = 0;
+
+  for (let i = 0; i < oldLines.length; i++) {
+    if (compare(lines[index + i], oldLines[i])) {
+      continue;
+    }
+
+    // removed lines always have to match, otherwise we would delete the wrong code
+    if (!contextMask[i] || ++mismatches > fuzz) {
+      return false;
+    }
+  }
+
+  return true;
+}
+
+/**
+ * Yields indices alternating around `start` so that the closest match wins.
+ */
+function* distanceIterator(start: number, min: number, max: number) {
+  yield start;
+
+  for (let distance = 1; start - distance >= min || start + distance <= max; distance++) {
+    if (start + distance <= max) {
+      yield start + distance;
+    }
+
+    if (start - distance >= min) {
+      yield start - distance;
+    }
+  }
+}
+
+function mergeContextLines(hunkLines: string[], replacedLines: string[]) {
+  const result: string[] = [];
+
+  let oldIndex = 0;
+
+  for (const line of hunkLines) {
+    if (line[0] === '+') {
+      result.push(line.slice(1));
+    } else {
+      if (line[0] === ' ') {
+        result.push(replacedLines[oldIndex]);
+      }
+
+      oldIndex++;
+    }
+  }
+
+  return result;
+}
@@ -2,7 +2,11 @@ import type { WebContainer } from '@webcontainer/api';
 import type { ITerminal } from '~/types/terminal';
 import { withResolvers } from './promises';
 
-export async function newShellProcess(webcontainer: WebContainer, terminal: ITerminal) {
+export async function newShellProcess(
+  webcontainer: WebContainer,
+  terminal: ITerminal,
+  env: Record<string, string> = {},
+) {
   const args: string[] = [];
 
   // we spawn a JSH process with a fallback cols and rows in case the process is not attached yet to a visible terminal
@@ -11,6 +15,7 @@ export async function newShellProcess(webcontainer: WebContainer, terminal: ITer
       cols: terminal.cols ?? 80,
       rows: terminal.rows ?? 15,
     },
+    env,
   });
 
   const input = process.input.getWriter();
@@ -9,3 +9,23 @@ export const escapeCodes = {
 export const coloredText = {
   red: (text: string) => `${escapeCodes.red}${text}${reset}`,
 };
+
+// matches CSI sequences like colors as well as OSC sequences used by jsh
+const ESCAPE_CODE_REGEX = /\x1b\[[0-9;?]*[a-zA-Z]|\x1b\][^\x07]*\x07/g;
+
+export function stripEscapeCodes(text: string) {
+  return text.replace(ESCAPE_CODE_REGEX, '');
+}
+
+/**
+ * Resolves carriage returns the way a terminal would, e.g. for progress bars that redraw a line.
+ */
+export function normalizeOutput(output: string) {
+  return output
+    .split('\n')
+    .map((line) => {
+      const segments = line.replace(/\r$/, '').split('\r');
+      return segments[segments.length - 1];
+    })
+    .join('\n');
+}